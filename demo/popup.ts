@@ -1,4 +1,5 @@
 import ChromiumAI, {
+	createProgressAggregator,
 	type DetectorInstance,
 	type LanguageModelInstance,
 	type SummarizerInstance,
@@ -52,16 +53,15 @@ let translator: TranslatorInstance | null = null;
 let detector: DetectorInstance | null = null;
 let summarizer: SummarizerInstance | null = null;
 
-// Monitor callback to show download progress in status
-function createMonitor(label: string): CreateMonitorCallback {
-	return (monitor) => {
-		monitor.addEventListener("downloadprogress", (e) => {
-			const pct = e.total ? Math.round((e.loaded / e.total) * 100) : 0;
-			if (statusEl)
-				statusEl.textContent = `${label}: downloading model ${pct}%`;
-		});
-	};
-}
+// One progress callback for every init, so downloads running at the same
+// time share the status line
+const onProgress = createProgressAggregator((_fraction, byApi) => {
+	const downloading = Object.entries(byApi)
+		.filter(([, fraction]) => fraction < 1)
+		.map(([api, fraction]) => `${api} ${Math.round(fraction * 100)}%`);
+	if (statusEl && downloading.length > 0)
+		statusEl.textContent = `Downloading models: ${downloading.join(", ")}`;
+});
 
 // Lazy-init APIs on dropdown selection
 async function initForSelection(api: string) {
@@ -70,9 +70,7 @@ async function initForSelection(api: string) {
 			case "prompt":
 				if (!ai) {
 					if (statusEl) statusEl.textContent = "Initializing Prompt API...";
-					ai = await ChromiumAI.initLanguageModel({
-						monitor: createMonitor("Prompt API"),
-					});
+					ai = await ChromiumAI.initLanguageModel({ onProgress });
 				}
 				if (statusEl) statusEl.textContent = "Prompt API ready!";
 				break;
@@ -80,9 +78,7 @@ async function initForSelection(api: string) {
 				if (!detector) {
 					if (statusEl)
 						statusEl.textContent = "Initializing Language Detector...";
-					detector = await ChromiumAI.initDetector({
-						monitor: createMonitor("Language Detector"),
-					});
+					detector = await ChromiumAI.initDetector({ onProgress });
 				}
 				if (statusEl) statusEl.textContent = "Language Detector ready!";
 				break;
@@ -129,7 +125,7 @@ async function initTranslatorIfNeeded() {
 		translator = await ChromiumAI.initTranslator({
 			sourceLanguage: translatorSourceLang,
 			targetLanguage: translatorTargetLang,
-			monitor: createMonitor("Translator"),
+			onProgress,
 		});
 	}
 	if (statusEl) statusEl.textContent = "Translator ready!";
@@ -148,7 +144,7 @@ async function initSummarizerIfNeeded() {
 		summarizer = await ChromiumAI.initSummarizer({
 			type: summarizerType as "tldr" | "key-points" | "teaser" | "headline",
 			length: summarizerLength as "short" | "medium" | "long",
-			monitor: createMonitor("Summarizer"),
+			onProgress,
 		});
 	}
 	if (statusEl) statusEl.textContent = "Summarizer ready!";
@@ -172,9 +168,7 @@ async function handlePrompt() {
 
 	if (!ai) {
 		if (statusEl) statusEl.textContent = "Initializing Prompt API...";
-		ai = await ChromiumAI.initLanguageModel({
-			monitor: createMonitor("Prompt API"),
-		});
+		ai = await ChromiumAI.initLanguageModel({ onProgress });
 		if (statusEl) statusEl.textContent = "Prompt API ready!";
 	}
 
@@ -202,9 +196,7 @@ async function handleDetect() {
 
 	if (!detector) {
 		if (statusEl) statusEl.textContent = "Initializing Language Detector...";
-		detector = await ChromiumAI.initDetector({
-			monitor: createMonitor("Language Detector"),
-		});
+		detector = await ChromiumAI.initDetector({ onProgress });
 		if (statusEl) statusEl.textContent = "Language Detector ready!";
 	}
 
@@ -0,0 +1,227 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { BatchProgress } from "./batch";
+import { initDetector } from "./detector";
+import { initLanguageModel } from "./index";
+import { initLanguageModel as safeInitLanguageModel } from "./safe";
+import { initSummarizer } from "./summarizer";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslator } from "./translator-safe";
+
+const pair = { sourceLanguage: "en", targetLanguage: "es" };
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("translateMany", () => {
+	it("returns one Result per text, in input order", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: (input) => {
+					if (input === "bad") {
+						throw new DOMException("Cannot translate", "NotSupportedError");
+					}
+					return `es:${input}`;
+				},
+			},
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+
+		const results = await translator.translateMany(["one", "bad", "three"]);
+
+		expect(results.map((result) => result.unwrapOr("failed"))).toEqual([
+			"es:one",
+			"failed",
+			"es:three",
+		]);
+		expect(results[1]?._unsafeUnwrapErr().api).toBe("Translator");
+	});
+
+	it("runs at most `concurrency` items at once", async () => {
+		let running = 0;
+		let peak = 0;
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: async (input) => {
+					running++;
+					peak = Math.max(peak, running);
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					running--;
+					return input;
+				},
+			},
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+
+		await translator.translateMany(["a", "b", "c", "d", "e"], {
+			concurrency: 3,
+		});
+
+		expect(peak).toBe(3);
+	});
+
+	it("processes every item when concurrency is below 1 or NaN", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { respond: (input) => `es:${input}` },
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+
+		for (const concurrency of [0, Number.NaN, 0.5]) {
+			const results = await translator.translateMany(["a", "b"], {
+				concurrency,
+			});
+
+			expect(results.map((result) => result._unsafeUnwrap())).toEqual([
+				"es:a",
+				"es:b",
+			]);
+		}
+	});
+
+	it("reports progress as items finish", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: (input) => {
+					if (input === "bad") {
+						throw new Error("boom");
+					}
+					return input;
+				},
+			},
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+		const progress: BatchProgress[] = [];
+
+		await translator.translateMany(["a", "bad", "c"], {
+			concurrency: 1,
+			onProgress: (update) => progress.push(update),
+		});
+
+		expect(progress).toEqual([
+			{ completed: 1, failed: 0, total: 3 },
+			{ completed: 2, failed: 1, total: 3 },
+			{ completed: 3, failed: 1, total: 3 },
+		]);
+	});
+
+	it("still returns every Result when onProgress throws", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { respond: (input) => `es:${input}` },
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+
+		const results = await translator.translateMany(["one", "two"], {
+			onProgress: () => {
+				throw new Error("progress bar is gone");
+			},
+		});
+
+		expect(results.map((result) => result._unsafeUnwrap())).toEqual([
+			"es:one",
+			"es:two",
+		]);
+	});
+
+	it("fails items not yet started once the signal aborts", async () => {
+		const controller = new AbortController();
+		const inputs: string[] = [];
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: (input) => {
+					inputs.push(input);
+					return input;
+				},
+			},
+		});
+		const translator = (await initTranslator(pair))._unsafeUnwrap();
+
+		const results = await translator.translateMany(["a", "b", "c"], {
+			concurrency: 1,
+			signal: controller.signal,
+			onProgress: () => controller.abort(),
+		});
+
+		expect(results[0]?.isOk()).toBe(true);
+		expect(
+			results.slice(1).map((result) => result._unsafeUnwrapErr().kind),
+		).toEqual(["Aborted", "Aborted"]);
+		expect(inputs).toEqual(["a"]);
+	});
+});
+
+describe("detectMany, summarizeMany and promptMany", () => {
+	it("detects each text", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: (input) => [
+					{ detectedLanguage: input === "hola" ? "es" : "en", confidence: 0.9 },
+				],
+			},
+		});
+		const detector = await initDetector();
+
+		const results = await detector.detectMany(["hola", "hello"]);
+
+		expect(
+			results.map((result) => result._unsafeUnwrap()[0]?.detectedLanguage),
+		).toEqual(["es", "en"]);
+	});
+
+	it("summarizes each text with the shared summarize options", async () => {
+		const contexts: (string | undefined)[] = [];
+		fakes = installChromiumAIFakes({
+			summarizer: {
+				respond: (input, _session, options) => {
+					contexts.push(options?.context);
+					return `summary of ${input}`;
+				},
+			},
+		});
+		const summarizer = await initSummarizer();
+
+		const results = await summarizer.summarizeMany(["a", "b"], {
+			context: "News articles",
+		});
+
+		expect(results.map((result) => result._unsafeUnwrap())).toEqual([
+			"summary of a",
+			"summary of b",
+		]);
+		expect(contexts).toEqual(["News articles", "News articles"]);
+	});
+
+	it("prompts each text in its own session", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: (input) => `re: ${String(input)}` },
+		});
+		const ai = await initLanguageModel();
+
+		const results = await ai.promptMany(["a", "b", "c"], {
+			sessionOptions: { temperature: 0.2, topK: 3 },
+		});
+
+		expect(results.map((result) => result._unsafeUnwrap())).toEqual([
+			"re: a",
+			"re: b",
+			"re: c",
+		]);
+		expect(fakes.languageModel.createCalls.at(-1)?.temperature).toBe(0.2);
+	});
+
+	it("never rejects when every item fails", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: () => {
+					throw new Error("model crashed");
+				},
+			},
+		});
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+
+		const results = await ai.promptMany(["a", "b"]);
+
+		expect(results.every((result) => result.isErr())).toBe(true);
+	});
+});
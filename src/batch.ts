@@ -0,0 +1,79 @@
+import { err, type Result, type ResultAsync } from "neverthrow";
+import { AbortedError, type ChromiumAIError } from "./errors";
+import { mapConcurrent } from "./utils";
+
+/**
+ * Progress of a batch call, reported each time an item finishes.
+ */
+export interface BatchProgress {
+	/** Items finished so far, failed ones included */
+	completed: number;
+	/** Items finished with an error so far */
+	failed: number;
+	total: number;
+}
+
+/**
+ * Options shared by `translateMany()`, `detectMany()`, `summarizeMany()` and
+ * `promptMany()`.
+ */
+export interface BatchOptions {
+	/** Maximum number of items processed at once, at least 1. Defaults to 2. */
+	concurrency?: number;
+	/** Errors thrown by the callback are ignored */
+	onProgress?: (progress: BatchProgress) => void;
+	/**
+	 * Aborts every item: running items fail as their native call is aborted,
+	 * and items not yet started fail with an AbortedError without being sent.
+	 */
+	signal?: AbortSignal;
+}
+
+/**
+ * One Result per input item, in input order. A batch call never rejects;
+ * each item succeeds or fails on its own.
+ */
+export type BatchResult<T> = Promise<Result<T, ChromiumAIError>[]>;
+
+/**
+ * Runs `task` for every item with the batch's concurrency, collecting each
+ * item's Result and reporting progress as items finish.
+ */
+export function runBatch<T, R>(
+	items: readonly T[],
+	options: BatchOptions | undefined,
+	api: string,
+	task: (item: T) => ResultAsync<R, ChromiumAIError>,
+): BatchResult<R> {
+	const signal = options?.signal;
+	const progress: BatchProgress = {
+		completed: 0,
+		failed: 0,
+		total: items.length,
+	};
+
+	return mapConcurrent(
+		items,
+		options?.concurrency ?? 2,
+		async (item): Promise<Result<R, ChromiumAIError>> => {
+			const result = signal?.aborted
+				? err(
+						new AbortedError("Batch was aborted before this item started", {
+							api,
+							cause: signal.reason,
+						}),
+					)
+				: await task(item);
+			progress.completed++;
+			if (result.isErr()) {
+				progress.failed++;
+			}
+			try {
+				options?.onProgress?.({ ...progress });
+			} catch {
+				// A failing callback must not reject the batch and lose its results
+			}
+			return result;
+		},
+	);
+}
@@ -0,0 +1,211 @@
+import { afterEach, describe, expect, it } from "vitest";
+import type { BatchProgress } from "./batch";
+import {
+	type BridgeHostInstances,
+	createBridgeClient,
+	createBridgeHost,
+} from "./bridge";
+import { isChromiumAIError, QuotaExceededError } from "./errors";
+import { initLanguageModel } from "./index";
+import {
+	type ChromiumAIFakes,
+	createFakePorts,
+	installChromiumAIFakes,
+} from "./testing";
+import { initTranslator } from "./translator";
+
+const pair = { sourceLanguage: "en", targetLanguage: "es" };
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+function connect(instances: BridgeHostInstances) {
+	const [clientPort, hostPort] = createFakePorts("test");
+	createBridgeHost(instances).serve(hostPort);
+	return { bridge: createBridgeClient(clientPort), clientPort, hostPort };
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("bridge", () => {
+	it("runs prompts on the host's instance", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: (input) => `Host: ${String(input)}` },
+		});
+		const { bridge } = connect({ languageModel: await initLanguageModel() });
+
+		const reply = await bridge.languageModel.prompt(
+			"Hi",
+			undefined,
+			undefined,
+			{
+				temperature: 0.3,
+				topK: 2,
+			},
+		);
+
+		expect(reply).toBe("Host: Hi");
+		expect(fakes.languageModel.createCalls.at(-1)?.temperature).toBe(0.3);
+	});
+
+	it("streams chunks from the host", async () => {
+		fakes = installChromiumAIFakes();
+		const { bridge } = connect({ translator: await initTranslator(pair) });
+
+		const chunks: string[] = [];
+		for await (const chunk of bridge.translator.translateStreaming(
+			"Good morning",
+		)) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.join("")).toBe("[es] Good morning");
+	});
+
+	it("rethrows host errors as the same ChromiumAIError class", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: () => {
+					throw new DOMException("Too long", "QuotaExceededError");
+				},
+			},
+		});
+		const { bridge } = connect({ translator: await initTranslator(pair) });
+
+		const error = await bridge.translator.translate("Hi").catch((e) => e);
+
+		expect(error).toBeInstanceOf(QuotaExceededError);
+		expect(isChromiumAIError(error)).toBe(true);
+		expect(error.api).toBe("Translator");
+	});
+
+	it("keeps the details of a StructuredOutputError", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: "not json" },
+		});
+		const { bridge } = connect({ languageModel: await initLanguageModel() });
+
+		await expect(
+			bridge.languageModel.promptJson(
+				"List colors",
+				{ type: "array" },
+				{ maxRepairAttempts: 0 },
+			),
+		).rejects.toMatchObject({
+			kind: "StructuredOutput",
+			attempts: 1,
+			lastResponse: "not json",
+		});
+	});
+
+	it("aborts the host's call when the client's signal aborts", async () => {
+		fakes = installChromiumAIFakes({ translator: { latency: 1000 } });
+		const { bridge, clientPort } = connect({
+			translator: await initTranslator(pair),
+		});
+		const controller = new AbortController();
+
+		const translation = bridge.translator.translate("Hi", controller.signal);
+		await wait(10);
+		controller.abort();
+
+		await expect(translation).rejects.toMatchObject({ kind: "Aborted" });
+		expect(clientPort.sent.at(-1)).toEqual({ type: "abort", id: 0 });
+	});
+
+	it("aborts the host's stream when the loop stops early", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { respond: "one two three four" },
+		});
+		const { bridge, clientPort } = connect({
+			translator: await initTranslator(pair),
+		});
+
+		for await (const _chunk of bridge.translator.translateStreaming("Hi")) {
+			break;
+		}
+
+		expect(clientPort.sent.at(-1)).toEqual({ type: "abort", id: 0 });
+	});
+
+	it("returns batch Results and forwards progress", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: (input) => {
+					if (input === "bad") {
+						throw new Error("boom");
+					}
+					return input.toUpperCase();
+				},
+			},
+		});
+		const { bridge } = connect({ translator: await initTranslator(pair) });
+		const progress: BatchProgress[] = [];
+
+		const results = await bridge.translator.translateMany(["a", "bad"], {
+			concurrency: 1,
+			onProgress: (update) => progress.push(update),
+		});
+
+		expect(results[0]?._unsafeUnwrap()).toBe("A");
+		expect(results[1]?._unsafeUnwrapErr().kind).toBe("OperationFailed");
+		expect(progress.at(-1)).toEqual({ completed: 2, failed: 1, total: 2 });
+	});
+
+	it("fails with ApiNotPresent for an API the host does not serve", async () => {
+		fakes = installChromiumAIFakes();
+		const { bridge } = connect({});
+
+		await expect(bridge.summarizer.summarize("Text")).rejects.toMatchObject({
+			kind: "ApiNotPresent",
+			api: "Summarizer",
+		});
+	});
+
+	it("fails calls in progress when the host disconnects", async () => {
+		fakes = installChromiumAIFakes({ translator: { latency: 1000 } });
+		const { bridge, hostPort } = connect({
+			translator: await initTranslator(pair),
+		});
+
+		const translation = bridge.translator.translate("Hi");
+		await wait(10);
+		hostPort.disconnect();
+
+		await expect(translation).rejects.toMatchObject({
+			kind: "OperationFailed",
+			message: "The bridge was disconnected",
+		});
+		await expect(bridge.translator.translate("Hi")).rejects.toMatchObject({
+			kind: "OperationFailed",
+		});
+	});
+
+	it("stops the host's calls when the client disconnects", async () => {
+		const inputs: string[] = [];
+		fakes = installChromiumAIFakes({
+			translator: {
+				latency: 30,
+				respond: (input) => {
+					inputs.push(input);
+					return input;
+				},
+			},
+		});
+		const { bridge } = connect({ translator: await initTranslator(pair) });
+
+		const translation = bridge.translator.translate("Hi");
+		await wait(10);
+		bridge.disconnect();
+
+		await expect(translation).rejects.toMatchObject({
+			kind: "OperationFailed",
+		});
+		await wait(50);
+		expect(inputs).toEqual([]);
+	});
+});
@@ -0,0 +1,754 @@
+import { err, ok, type Result } from "neverthrow";
+import { match } from "ts-pattern";
+import {
+	AbortedError,
+	ApiNotPresentError,
+	type ChromiumAIError,
+	type ChromiumAIErrorKind,
+	ContextOverflowError,
+	DownloadFailedError,
+	InvalidInputError,
+	ModelUnavailableError,
+	OperationFailedError,
+	QuotaExceededError,
+	SessionCreateFailedError,
+	StructuredOutputError,
+	TimeoutError,
+	toChromiumAIError,
+} from "./errors";
+import type {
+	DetectorInstance,
+	LanguageModelInstance,
+	SummarizerInstance,
+	TranslatorInstance,
+} from "./types";
+
+/** The port name used by the README examples; any name works. */
+export const BRIDGE_PORT_NAME = "simple-chromium-ai";
+
+/**
+ * The part of `chrome.runtime.Port` the bridge uses, so a Chrome port can be
+ * passed as-is. Messages must survive a JSON round trip.
+ */
+export interface BridgePort {
+	postMessage(message: unknown): void;
+	onMessage: {
+		addListener(listener: (message: unknown) => void): void;
+		removeListener(listener: (message: unknown) => void): void;
+	};
+	onDisconnect: {
+		addListener(listener: () => void): void;
+		removeListener(listener: () => void): void;
+	};
+	disconnect(): void;
+}
+
+/**
+ * The LanguageModelInstance methods available through the bridge. Not
+ * included: `promptWithMedia()` (images and audio are not JSON),
+ * `runWithTools()` (tool handlers are functions), and `createSession()`,
+ * `createConversation()`, `restoreConversation()` and `withSession()`, which
+ * hand out live sessions. `dispose()` is left to the host.
+ */
+export type RemoteLanguageModelInstance = Pick<
+	LanguageModelInstance,
+	"prompt" | "promptStreaming" | "promptMany" | "promptJson" | "checkTokenUsage"
+>;
+
+/**
+ * The TranslatorInstance methods available through the bridge. Not included:
+ * `createSession()`, which returns a live session, and `destroy()`, which is
+ * left to the host.
+ */
+export type RemoteTranslatorInstance = Pick<
+	TranslatorInstance,
+	"translate" | "translateStreaming" | "translateMany" | "translateDocument"
+>;
+
+/**
+ * The DetectorInstance methods available through the bridge. Not included:
+ * `createSession()`, which returns a live session, and `destroy()`, which is
+ * left to the host.
+ */
+export type RemoteDetectorInstance = Pick<
+	DetectorInstance,
+	"detect" | "detectMany" | "detectLanguage" | "detectSegments"
+>;
+
+/**
+ * The SummarizerInstance methods available through the bridge. Not included:
+ * `createSession()`, which returns a live session, and `destroy()`, which is
+ * left to the host.
+ */
+export type RemoteSummarizerInstance = Pick<
+	SummarizerInstance,
+	"summarize" | "summarizeStreaming" | "summarizeMany" | "summarizeLong"
+>;
+
+/**
+ * The instances a host serves. Omitted APIs fail with an ApiNotPresentError
+ * on the client.
+ */
+export interface BridgeHostInstances {
+	languageModel?: RemoteLanguageModelInstance;
+	translator?: RemoteTranslatorInstance;
+	detector?: RemoteDetectorInstance;
+	summarizer?: RemoteSummarizerInstance;
+}
+
+/**
+ * Returned by `createBridgeHost()`.
+ */
+export interface BridgeHost {
+	/**
+	 * Answers calls arriving on `port` until it disconnects. Returns a function
+	 * that stops serving it and aborts its calls in progress.
+	 */
+	serve(port: BridgePort): () => void;
+}
+
+/**
+ * Returned by `createBridgeClient()`. Each instance forwards its calls to the
+ * host's instance of the same API, and has only the methods listed on its
+ * Remote* type.
+ */
+export interface BridgeClient {
+	languageModel: RemoteLanguageModelInstance;
+	translator: RemoteTranslatorInstance;
+	detector: RemoteDetectorInstance;
+	summarizer: RemoteSummarizerInstance;
+	/** Disconnects the port. Calls in progress fail with an OperationFailedError. */
+	disconnect(): void;
+}
+
+type BridgeApi = keyof BridgeHostInstances;
+
+/** An argument index followed by the property names leading to a value */
+type ArgPath = readonly [number, ...string[]];
+
+interface MethodSpec {
+	/** "batch" methods resolve to one Result per item */
+	kind: "call" | "stream" | "batch";
+	/** Where the method takes its AbortSignal */
+	signal?: ArgPath;
+	/** Where the method takes an `onProgress` callback */
+	onProgress?: ArgPath;
+}
+
+const call = (signal?: ArgPath): MethodSpec => ({ kind: "call", signal });
+const stream = (signal: ArgPath): MethodSpec => ({ kind: "stream", signal });
+const batch: MethodSpec = {
+	kind: "batch",
+	signal: [1, "signal"],
+	onProgress: [1, "onProgress"],
+};
+
+const METHODS = {
+	languageModel: {
+		prompt: call([2, "signal"]),
+		promptStreaming: stream([2, "signal"]),
+		promptMany: batch,
+		promptJson: call([2, "promptOptions", "signal"]),
+		checkTokenUsage: call(),
+	},
+	translator: {
+		translate: call([1]),
+		translateStreaming: stream([1]),
+		translateMany: batch,
+		translateDocument: call([1, "signal"]),
+	},
+	detector: {
+		detect: call([1]),
+		detectMany: batch,
+		detectLanguage: call([1, "signal"]),
+		detectSegments: call([1, "signal"]),
+	},
+	summarizer: {
+		summarize: call([1, "signal"]),
+		summarizeStreaming: stream([1, "signal"]),
+		summarizeMany: batch,
+		summarizeLong: {
+			kind: "call",
+			signal: [1, "signal"],
+			onProgress: [1, "onProgress"],
+		},
+	},
+} satisfies {
+	[A in BridgeApi]-?: Record<
+		keyof NonNullable<BridgeHostInstances[A]>,
+		MethodSpec
+	>;
+};
+
+const API_NAMES: Record<BridgeApi, string> = {
+	languageModel: "LanguageModel",
+	translator: "Translator",
+	detector: "Language Detector",
+	summarizer: "Summarizer",
+};
+
+// Not `Object.hasOwn()`, which needs the ES2022 lib
+function hasOwn(object: object, key: string): boolean {
+	return Object.keys(object).includes(key);
+}
+
+function methodSpec(api: string, method: string): MethodSpec | undefined {
+	if (!hasOwn(METHODS, api)) {
+		return undefined;
+	}
+	const methods: Record<string, MethodSpec> = METHODS[api as BridgeApi];
+	return hasOwn(methods, method) ? methods[method] : undefined;
+}
+
+// --- Messages ---
+
+interface SerializedError {
+	kind: ChromiumAIErrorKind;
+	message: string;
+	api?: string;
+	attempts?: number;
+	lastResponse?: string;
+	issues?: string[];
+	promptTokens?: number;
+	contextUsage?: number;
+	contextWindow?: number;
+}
+
+type SerializedResult =
+	| { ok: true; value: unknown }
+	| { ok: false; error: SerializedError };
+
+type ClientMessage =
+	| { type: "call"; id: number; api: string; method: string; args: unknown[] }
+	| { type: "abort"; id: number };
+
+type HostMessage =
+	| { type: "result"; id: number; value: unknown }
+	| { type: "chunk"; id: number; value: unknown }
+	| { type: "end"; id: number }
+	| { type: "progress"; id: number; value: unknown }
+	| { type: "error"; id: number; error: SerializedError };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null;
+}
+
+/** The fields of a message from the other side, whose shape is not trusted yet */
+function fields(
+	message: unknown,
+): Partial<Record<"type" | "id" | "api" | "method" | "args", unknown>> {
+	return isRecord(message) ? message : {};
+}
+
+function isClientMessage(message: unknown): message is ClientMessage {
+	const { type, id, api, method, args } = fields(message);
+	return (
+		typeof id === "number" &&
+		(type === "abort" ||
+			(type === "call" &&
+				typeof api === "string" &&
+				typeof method === "string" &&
+				Array.isArray(args)))
+	);
+}
+
+function isHostMessage(message: unknown): message is HostMessage {
+	const { type, id } = fields(message);
+	return typeof id === "number" && typeof type === "string";
+}
+
+function serializeError(error: ChromiumAIError): SerializedError {
+	return match(error)
+		.with(
+			{ kind: "StructuredOutput" },
+			(e): SerializedError => ({
+				kind: e.kind,
+				message: e.message,
+				api: e.api,
+				attempts: e.attempts,
+				lastResponse: e.lastResponse,
+				issues: e.issues,
+			}),
+		)
+		.with(
+			{ kind: "ContextOverflow" },
+			(e): SerializedError => ({
+				kind: e.kind,
+				message: e.message,
+				api: e.api,
+				promptTokens: e.promptTokens,
+				contextUsage: e.contextUsage,
+				contextWindow: e.contextWindow,
+			}),
+		)
+		.otherwise(
+			(e): SerializedError => ({
+				kind: e.kind,
+				message: e.message,
+				api: e.api,
+			}),
+		);
+}
+
+function deserializeError(error: SerializedError): ChromiumAIError {
+	const details = { api: error.api };
+	return match(error.kind)
+		.with("ApiNotPresent", () => new ApiNotPresentError(error.message, details))
+		.with(
+			"ModelUnavailable",
+			() => new ModelUnavailableError(error.message, details),
+		)
+		.with(
+			"DownloadFailed",
+			() => new DownloadFailedError(error.message, details),
+		)
+		.with("Timeout", () => new TimeoutError(error.message, details))
+		.with("Aborted", () => new AbortedError(error.message, details))
+		.with("QuotaExceeded", () => new QuotaExceededError(error.message, details))
+		.with("InvalidInput", () => new InvalidInputError(error.message, details))
+		.with(
+			"SessionCreateFailed",
+			() => new SessionCreateFailedError(error.message, details),
+		)
+		.with(
+			"StructuredOutput",
+			() =>
+				new StructuredOutputError(
+					error.attempts ?? 1,
+					error.lastResponse ?? "",
+					error.issues ?? [],
+				),
+		)
+		.with(
+			"ContextOverflow",
+			() =>
+				new ContextOverflowError(
+					error.promptTokens ?? 0,
+					error.contextUsage ?? 0,
+					error.contextWindow ?? 0,
+				),
+		)
+		.otherwise(() => new OperationFailedError(error.message, details));
+}
+
+function readPath(args: readonly unknown[], path: ArgPath): unknown {
+	const [index, ...keys] = path;
+	let value = args[index];
+	for (const key of keys) {
+		value = isRecord(value) ? value[key] : undefined;
+	}
+	return value;
+}
+
+/** Returns a copy of `args` with the value at `path` replaced. */
+function writePath(
+	args: readonly unknown[],
+	path: ArgPath,
+	value: unknown,
+): unknown[] {
+	const [index, ...keys] = path;
+	const set = (target: unknown, depth: number): unknown => {
+		const key = keys[depth];
+		if (key === undefined) {
+			return value;
+		}
+		const record = isRecord(target) ? target : {};
+		return { ...record, [key]: set(record[key], depth + 1) };
+	};
+	const copy = [...args];
+	copy[index] = set(args[index], 0);
+	return copy;
+}
+
+// --- Host ---
+
+/**
+ * Creates the host side of the bridge, which runs the calls of connected
+ * clients on `instances`. Run it where the models work, e.g. an offscreen
+ * document or the side panel, and pass it each port clients connect with.
+ *
+ * @example
+ * const host = createBridgeHost({
+ *   languageModel: await initLanguageModel(),
+ *   translator: await initTranslator({ sourceLanguage: "en", targetLanguage: "fr" }),
+ * });
+ * chrome.runtime.onConnect.addListener((port) => {
+ *   if (port.name === BRIDGE_PORT_NAME) host.serve(port);
+ * });
+ */
+export function createBridgeHost(instances: BridgeHostInstances): BridgeHost {
+	return {
+		serve: (port) => {
+			const controllers = new Map<number, AbortController>();
+			let connected = true;
+
+			const post = (message: HostMessage) => {
+				if (!connected) {
+					return;
+				}
+				try {
+					port.postMessage(message);
+				} catch {
+					// The client went away; its disconnect stops the remaining calls
+				}
+			};
+
+			const run = async (message: ClientMessage & { type: "call" }) => {
+				const { id, api, method } = message;
+				const controller = new AbortController();
+				controllers.set(id, controller);
+				const apiName = hasOwn(API_NAMES, api)
+					? API_NAMES[api as BridgeApi]
+					: api;
+				const toError = (error: unknown) =>
+					serializeError(
+						toChromiumAIError(
+							error,
+							apiName,
+							(errorMessage, details) =>
+								new OperationFailedError(errorMessage, details),
+						),
+					);
+
+				try {
+					const spec = methodSpec(api, method);
+					if (!spec) {
+						throw new InvalidInputError(
+							`The bridge does not support ${api}.${method}()`,
+							{ api: apiName },
+						);
+					}
+					const instance: Record<string, unknown> | undefined =
+						instances[api as BridgeApi];
+					const fn = instance?.[method];
+					if (typeof fn !== "function") {
+						throw new ApiNotPresentError(
+							`The bridge host does not serve a ${apiName} instance`,
+							{ api: apiName },
+						);
+					}
+
+					// JSON turns skipped arguments into null
+					let args: unknown[] = message.args.map((arg) => arg ?? undefined);
+					if (spec.signal) {
+						args = writePath(args, spec.signal, controller.signal);
+					}
+					if (spec.onProgress && readPath(args, spec.onProgress) === true) {
+						args = writePath(args, spec.onProgress, (value: unknown) =>
+							post({ type: "progress", id, value }),
+						);
+					}
+
+					const output: unknown = await fn.apply(instance, args);
+					if (spec.kind === "stream") {
+						for await (const chunk of output as AsyncIterable<unknown>) {
+							if (controller.signal.aborted) {
+								break;
+							}
+							post({ type: "chunk", id, value: chunk });
+						}
+						post({ type: "end", id });
+					} else if (spec.kind === "batch") {
+						const results = output as Result<unknown, ChromiumAIError>[];
+						post({
+							type: "result",
+							id,
+							value: results.map(
+								(result): SerializedResult =>
+									result.isOk()
+										? { ok: true, value: result.value }
+										: { ok: false, error: serializeError(result.error) },
+							),
+						});
+					} else {
+						post({ type: "result", id, value: output });
+					}
+				} catch (error) {
+					post({ type: "error", id, error: toError(error) });
+				} finally {
+					controllers.delete(id);
+				}
+			};
+
+			const onMessage = (message: unknown) => {
+				if (!isClientMessage(message)) {
+					return;
+				}
+				if (message.type === "abort") {
+					controllers
+						.get(message.id)
+						?.abort(new DOMException("Aborted by the client", "AbortError"));
+				} else {
+					void run(message);
+				}
+			};
+
+			const stop = () => {
+				if (!connected) {
+					return;
+				}
+				connected = false;
+				port.onMessage.removeListener(onMessage);
+				port.onDisconnect.removeListener(stop);
+				for (const controller of controllers.values()) {
+					controller.abort(
+						new DOMException("The bridge was disconnected", "AbortError"),
+					);
+				}
+			};
+
+			port.onMessage.addListener(onMessage);
+			port.onDisconnect.addListener(stop);
+			return stop;
+		},
+	};
+}
+
+// --- Client ---
+
+type ClientEvent =
+	| { type: "result"; value: unknown }
+	| { type: "chunk"; value: unknown }
+	| { type: "end" }
+	| { type: "error"; error: ChromiumAIError };
+
+interface PendingCall {
+	api: BridgeApi;
+	onEvent: (event: ClientEvent) => void;
+	onProgress: ((value: unknown) => void) | undefined;
+}
+
+/**
+ * Creates the client side of the bridge on a connected port, e.g. in a
+ * content script. Its instances have the same methods and errors as local
+ * ones; aborting a call's signal, or stopping a stream early, cancels the
+ * call on the host.
+ *
+ * Arguments must survive a JSON round trip: functions other than
+ * `onProgress`, such as a retry policy's `retryable`, are dropped. Configure
+ * those on the host's instances instead.
+ *
+ * @example
+ * const bridge = createBridgeClient(
+ *   chrome.runtime.connect({ name: BRIDGE_PORT_NAME }),
+ * );
+ * const reply = await bridge.languageModel.prompt("Summarize this page");
+ */
+export function createBridgeClient(port: BridgePort): BridgeClient {
+	const pending = new Map<number, PendingCall>();
+	let nextId = 0;
+	let connected = true;
+
+	const disconnectedError = (api: BridgeApi) =>
+		new OperationFailedError("The bridge was disconnected", {
+			api: API_NAMES[api],
+		});
+
+	const onMessage = (message: unknown) => {
+		if (!isHostMessage(message)) {
+			return;
+		}
+		const call = pending.get(message.id);
+		if (message.type === "progress") {
+			call?.onProgress?.(message.value);
+		} else if (message.type === "error") {
+			call?.onEvent({ type: "error", error: deserializeError(message.error) });
+		} else {
+			call?.onEvent(message);
+		}
+	};
+
+	const onDisconnect = () => {
+		connected = false;
+		port.onMessage.removeListener(onMessage);
+		port.onDisconnect.removeListener(onDisconnect);
+		for (const call of [...pending.values()]) {
+			call.onEvent({ type: "error", error: disconnectedError(call.api) });
+		}
+	};
+
+	port.onMessage.addListener(onMessage);
+	port.onDisconnect.addListener(onDisconnect);
+
+	/**
+	 * Sends one call and passes its events to `onEvent`. The returned function
+	 * aborts the call on the host if it has not finished yet.
+	 */
+	const open = (
+		api: BridgeApi,
+		method: string,
+		spec: MethodSpec,
+		args: unknown[],
+		onEvent: (event: ClientEvent) => void,
+	): (() => void) => {
+		const id = nextId++;
+		const signal = spec.signal ? readPath(args, spec.signal) : undefined;
+		const onProgress = spec.onProgress
+			? readPath(args, spec.onProgress)
+			: undefined;
+		let finished = false;
+
+		const abort = () => {
+			if (!finished && connected) {
+				try {
+					port.postMessage({ type: "abort", id } satisfies ClientMessage);
+				} catch {
+					// The host is gone, so the call is no longer running
+				}
+			}
+		};
+		const settle = () => {
+			finished = true;
+			pending.delete(id);
+			if (signal instanceof AbortSignal) {
+				signal.removeEventListener("abort", abort);
+			}
+		};
+		const close = () => {
+			abort();
+			settle();
+		};
+
+		if (!connected) {
+			settle();
+			onEvent({ type: "error", error: disconnectedError(api) });
+			return close;
+		}
+		if (signal instanceof AbortSignal && signal.aborted) {
+			settle();
+			onEvent({
+				type: "error",
+				error: new AbortedError("The call was aborted before it was sent", {
+					api: API_NAMES[api],
+					cause: signal.reason,
+				}),
+			});
+			return close;
+		}
+
+		let sent = args;
+		if (spec.signal) {
+			sent = writePath(sent, spec.signal, undefined);
+		}
+		if (spec.onProgress && typeof onProgress === "function") {
+			sent = writePath(sent, spec.onProgress, true);
+		}
+
+		pending.set(id, {
+			api,
+			onEvent: (event) => {
+				if (event.type !== "chunk") {
+					settle();
+				}
+				onEvent(event);
+			},
+			onProgress:
+				typeof onProgress === "function"
+					? (value) => onProgress(value)
+					: undefined,
+		});
+		if (signal instanceof AbortSignal) {
+			signal.addEventListener("abort", abort, { once: true });
+		}
+
+		try {
+			port.postMessage({
+				type: "call",
+				id,
+				api,
+				method,
+				args: sent,
+			} satisfies ClientMessage);
+		} catch {
+			settle();
+			onEvent({ type: "error", error: disconnectedError(api) });
+		}
+		return close;
+	};
+
+	const request = (
+		api: BridgeApi,
+		method: string,
+		spec: MethodSpec,
+		args: unknown[],
+	) =>
+		new Promise<unknown>((resolve, reject) => {
+			open(api, method, spec, args, (event) => {
+				if (event.type === "error") {
+					reject(event.error);
+				} else if (event.type === "result") {
+					resolve(
+						spec.kind === "batch"
+							? (event.value as SerializedResult[]).map((result) =>
+									result.ok
+										? ok(result.value)
+										: err(deserializeError(result.error)),
+								)
+							: event.value,
+					);
+				}
+			});
+		});
+
+	async function* requestStream(
+		api: BridgeApi,
+		method: string,
+		spec: MethodSpec,
+		args: unknown[],
+	): AsyncGenerator<unknown> {
+		const events: ClientEvent[] = [];
+		let wake: (() => void) | undefined;
+		const close = open(api, method, spec, args, (event) => {
+			events.push(event);
+			wake?.();
+		});
+
+		try {
+			for (;;) {
+				const event = events.shift();
+				if (!event) {
+					await new Promise<void>((resolve) => {
+						wake = resolve;
+					});
+					continue;
+				}
+				if (event.type === "error") {
+					throw event.error;
+				}
+				if (event.type === "end") {
+					return;
+				}
+				yield event.value;
+			}
+		} finally {
+			close();
+		}
+	}
+
+	const remote = <T>(api: BridgeApi): T =>
+		Object.fromEntries(
+			Object.entries(METHODS[api]).map(
+				([method, spec]: [string, MethodSpec]) => [
+					method,
+					(...args: unknown[]) =>
+						spec.kind === "stream"
+							? requestStream(api, method, spec, args)
+							: request(api, method, spec, args),
+				],
+			),
+		) as T;
+
+	return {
+		languageModel: remote<RemoteLanguageModelInstance>("languageModel"),
+		translator: remote<RemoteTranslatorInstance>("translator"),
+		detector: remote<RemoteDetectorInstance>("detector"),
+		summarizer: remote<RemoteSummarizerInstance>("summarizer"),
+		disconnect: () => {
+			if (connected) {
+				port.disconnect();
+				// A port's own disconnect() does not fire its onDisconnect
+				onDisconnect();
+			}
+		},
+	};
+}
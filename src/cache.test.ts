@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	type CacheEntry,
+	type CacheStore,
+	createMemoryCacheStore,
+} from "./cache";
+import { initLanguageModel } from "./index";
+import { initSummarizer } from "./summarizer";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslator } from "./translator";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+	vi.restoreAllMocks();
+});
+
+// Numbers every native call so cached and fresh responses can be told apart.
+function installCountingFakes() {
+	let calls = 0;
+	fakes = installChromiumAIFakes({
+		languageModel: { respond: () => `reply ${++calls}` },
+		translator: { respond: (input) => `translated ${++calls}: ${input}` },
+		summarizer: { respond: (input) => `summary ${++calls}: ${input}` },
+	});
+}
+
+describe("response cache", () => {
+	it("serves repeated prompts from the cache", async () => {
+		installCountingFakes();
+		const ai = await initLanguageModel({ cache: {} });
+
+		const first = await ai.prompt("Hello");
+		const second = await ai.prompt("Hello");
+		const other = await ai.prompt("Goodbye");
+
+		expect(first).toBe("reply 1");
+		expect(second).toBe("reply 1");
+		expect(other).toBe("reply 2");
+	});
+
+	it("does not cache when no cache is configured", async () => {
+		installCountingFakes();
+		const ai = await initLanguageModel();
+
+		await ai.prompt("Hello");
+
+		expect(await ai.prompt("Hello")).toBe("reply 2");
+	});
+
+	it("keys prompts by their options", async () => {
+		installCountingFakes();
+		const ai = await initLanguageModel({ cache: {} });
+
+		await ai.prompt("Hello", undefined, undefined, { temperature: 0.2 });
+		const sameOptions = await ai.prompt("Hello", undefined, undefined, {
+			temperature: 0.2,
+		});
+		const otherOptions = await ai.prompt("Hello", undefined, undefined, {
+			temperature: 0.8,
+		});
+		const otherConstraint = await ai.prompt("Hello", undefined, {
+			responseConstraint: { type: "boolean" },
+		});
+
+		expect(sameOptions).toBe("reply 1");
+		expect(otherOptions).toBe("reply 2");
+		expect(otherConstraint).toBe("reply 3");
+	});
+
+	it("expires entries after the ttl", async () => {
+		installCountingFakes();
+		const now = vi.spyOn(Date, "now").mockReturnValue(1_000);
+		const ai = await initLanguageModel({ cache: { ttl: 500 } });
+
+		await ai.prompt("Hello");
+		now.mockReturnValue(1_400);
+		const fresh = await ai.prompt("Hello");
+		now.mockReturnValue(1_600);
+		const expired = await ai.prompt("Hello");
+
+		expect(fresh).toBe("reply 1");
+		expect(expired).toBe("reply 2");
+	});
+
+	it("bypasses and refreshes per call", async () => {
+		installCountingFakes();
+		const ai = await initLanguageModel({ cache: {} });
+
+		await ai.prompt("Hello");
+		const bypassed = await ai.prompt("Hello", undefined, { cache: "bypass" });
+		const cached = await ai.prompt("Hello");
+		const refreshed = await ai.prompt("Hello", undefined, { cache: "refresh" });
+		const afterRefresh = await ai.prompt("Hello");
+
+		expect(bypassed).toBe("reply 2");
+		expect(cached).toBe("reply 1");
+		expect(refreshed).toBe("reply 3");
+		expect(afterRefresh).toBe("reply 3");
+	});
+
+	it("caches translations per language pair", async () => {
+		installCountingFakes();
+		const store = createMemoryCacheStore();
+		const toGerman = await initTranslator({
+			sourceLanguage: "en",
+			targetLanguage: "de",
+			cache: { store },
+		});
+		const toFrench = await initTranslator({
+			sourceLanguage: "en",
+			targetLanguage: "fr",
+			cache: { store },
+		});
+
+		await toGerman.translate("Hello");
+		const german = await toGerman.translate("Hello");
+		const french = await toFrench.translate("Hello");
+
+		expect(german).toBe("translated 1: Hello");
+		expect(french).toBe("translated 2: Hello");
+		expect(fakes.translator.createCalls[0]).not.toHaveProperty("cache");
+	});
+
+	it("keys summaries by creation options and context", async () => {
+		installCountingFakes();
+		const store = createMemoryCacheStore();
+		const short = await initSummarizer({ length: "short", cache: { store } });
+		const long = await initSummarizer({ length: "long", cache: { store } });
+
+		await short.summarize("Text");
+		const cached = await short.summarize("Text");
+		const otherOptions = await long.summarize("Text");
+		const otherContext = await short.summarize("Text", { context: "News" });
+
+		expect(cached).toBe("summary 1: Text");
+		expect(otherOptions).toBe("summary 2: Text");
+		expect(otherContext).toBe("summary 3: Text");
+	});
+
+	it("works with a custom async store", async () => {
+		installCountingFakes();
+		const entries = new Map<string, CacheEntry>();
+		const store: CacheStore = {
+			get: async (key) => entries.get(key),
+			set: async (key, entry) => {
+				entries.set(key, entry);
+			},
+			delete: async (key) => {
+				entries.delete(key);
+			},
+		};
+		const ai = await initLanguageModel({ cache: { store } });
+
+		await ai.prompt("Hello");
+
+		expect([...entries.values()]).toEqual([{ value: "reply 1" }]);
+		expect(await ai.prompt("Hello")).toBe("reply 1");
+	});
+
+	it("treats store failures as cache misses", async () => {
+		installCountingFakes();
+		const store: CacheStore = {
+			get: () => Promise.reject(new Error("store offline")),
+			set: () => Promise.reject(new Error("store offline")),
+			delete: () => Promise.reject(new Error("store offline")),
+		};
+		const ai = await initLanguageModel({ cache: { store } });
+
+		expect(await ai.prompt("Hello")).toBe("reply 1");
+		expect(await ai.prompt("Hello")).toBe("reply 2");
+	});
+
+	it("skips the cache when hashing the key fails", async () => {
+		installCountingFakes();
+		vi.spyOn(crypto.subtle, "digest").mockRejectedValue(
+			new DOMException("Not allowed", "NotSupportedError"),
+		);
+		const ai = await initLanguageModel({ cache: {} });
+
+		expect(await ai.prompt("Hello")).toBe("reply 1");
+		expect(await ai.prompt("Hello")).toBe("reply 2");
+	});
+
+	it("does not cache failed calls", async () => {
+		let calls = 0;
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: () => {
+					calls++;
+					if (calls === 1) {
+						throw new Error("model busy");
+					}
+					return `reply ${calls}`;
+				},
+			},
+		});
+		const ai = await initLanguageModel({ cache: {} });
+
+		await expect(ai.prompt("Hello")).rejects.toThrow("model busy");
+
+		expect(await ai.prompt("Hello")).toBe("reply 2");
+	});
+});
@@ -0,0 +1,147 @@
+import { okAsync, ResultAsync } from "neverthrow";
+import type { ChromiumAIError } from "./errors";
+import { createLru } from "./lru";
+import { stableStringify } from "./utils";
+
+/**
+ * A cached response. `expiresAt` is a timestamp in milliseconds; entries
+ * without it never expire.
+ */
+export interface CacheEntry {
+	value: string;
+	expiresAt?: number;
+}
+
+/**
+ * Storage for cached responses. Implement this to persist the cache, e.g. in
+ * IndexedDB or `chrome.storage`. Keys are short fixed-length strings and
+ * entries are JSON-serializable.
+ */
+export interface CacheStore {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+	delete(key: string): Promise<void>;
+}
+
+/**
+ * Per-call cache control:
+ * - "default" reads the cache and stores new responses
+ * - "bypass" neither reads nor writes the cache
+ * - "refresh" skips reading but stores the new response
+ */
+export type CacheMode = "default" | "bypass" | "refresh";
+
+export interface CacheCallOptions {
+	cache?: CacheMode;
+}
+
+/**
+ * Enables response caching on an instance.
+ */
+export interface ResponseCacheOptions {
+	/** Where responses are kept. Defaults to an in-memory LRU store of 500 entries per instance. */
+	store?: CacheStore;
+	/** Milliseconds a response stays valid. Defaults to no expiry. */
+	ttl?: number;
+}
+
+/**
+ * Creates an in-memory CacheStore that keeps the most recently used entries.
+ * Share one store between instances to share their cached responses.
+ */
+export function createMemoryCacheStore(maxEntries = 500): CacheStore {
+	const entries = createLru<string, CacheEntry>(maxEntries);
+
+	return {
+		get: async (key) => entries.get(key),
+		set: async (key, entry) => entries.set(key, entry),
+		delete: async (key) => {
+			entries.delete(key);
+		},
+	};
+}
+
+/**
+ * Hashes the key parts, or returns undefined if hashing fails, e.g. where
+ * `crypto.subtle` is missing outside a secure context.
+ */
+async function hashKey(parts: unknown[]): Promise<string | undefined> {
+	try {
+		const digest = await crypto.subtle.digest(
+			"SHA-256",
+			new TextEncoder().encode(stableStringify(parts)),
+		);
+		return Array.from(new Uint8Array(digest), (byte) =>
+			byte.toString(16).padStart(2, "0"),
+		).join("");
+	} catch {
+		return undefined;
+	}
+}
+
+export interface ResponseCache {
+	/**
+	 * Returns the cached response for `keyParts`, or runs `compute` and stores
+	 * its successful result. Pass `undefined` key parts for calls whose options
+	 * cannot be compared by value; they always run `compute`.
+	 */
+	wrap(
+		keyParts: unknown[] | undefined,
+		mode: CacheMode | undefined,
+		compute: () => ResultAsync<string, ChromiumAIError>,
+	): ResultAsync<string, ChromiumAIError>;
+}
+
+/**
+ * Wraps calls with a cache lookup. Store and hashing failures are treated as
+ * misses and never fail the call: the cache is an optimization, not a source of truth.
+ */
+export function createResponseCache(
+	options: ResponseCacheOptions,
+): ResponseCache {
+	const store = options.store ?? createMemoryCacheStore();
+
+	const read = async (key: string): Promise<string | undefined> => {
+		const entry = await store.get(key).catch(() => undefined);
+		if (!entry) {
+			return undefined;
+		}
+		if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+			await store.delete(key).catch(() => undefined);
+			return undefined;
+		}
+		return entry.value;
+	};
+
+	const write = async (key: string, value: string): Promise<void> => {
+		const entry: CacheEntry =
+			options.ttl !== undefined
+				? { value, expiresAt: Date.now() + options.ttl }
+				: { value };
+		await store.set(key, entry).catch(() => undefined);
+	};
+
+	return {
+		wrap: (keyParts, mode, compute) => {
+			if (keyParts === undefined || mode === "bypass") {
+				return compute();
+			}
+
+			return ResultAsync.fromSafePromise(hashKey(keyParts)).andThen((key) =>
+				key === undefined
+					? compute()
+					: ResultAsync.fromSafePromise(
+							mode === "refresh" ? Promise.resolve(undefined) : read(key),
+						).andThen((cached) =>
+							cached !== undefined
+								? okAsync(cached)
+								: compute().andThen((value) =>
+										ResultAsync.fromSafePromise(write(key, value)).map(
+											() => value,
+										),
+									),
+						),
+			);
+		},
+	};
+}
@@ -0,0 +1,155 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { getCapabilities } from "./capabilities";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("getCapabilities", () => {
+	it("reports every API without creating sessions", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: { availability: "downloadable" },
+			writer: { availability: "downloading" },
+			rewriter: { availability: "unavailable" },
+			proofreader: false,
+		});
+
+		const capabilities = await getCapabilities();
+
+		expect(capabilities.languageModel).toEqual({
+			present: true,
+			availability: "available",
+			modalities: [],
+		});
+		expect(capabilities.languageDetector).toEqual({
+			present: true,
+			availability: "available",
+		});
+		expect(capabilities.summarizer).toEqual({
+			present: true,
+			availability: "downloadable",
+			reason:
+				"The Summarizer model is not on this device yet. Initializing Summarizer starts the download.",
+		});
+		expect(capabilities.writer.reason).toBe("The Writer model is downloading.");
+		expect(capabilities.rewriter).toEqual({
+			present: true,
+			availability: "unavailable",
+			reason:
+				"Rewriter API is present but the model is unavailable on this device.",
+		});
+		expect(capabilities.proofreader.present).toBe(false);
+		expect(capabilities.proofreader.reason).toMatch(/not available/);
+		expect(capabilities.translator).toEqual({
+			present: true,
+			languagePairs: [],
+		});
+		for (const api of [
+			fakes.languageModel,
+			fakes.translator,
+			fakes.languageDetector,
+			fakes.summarizer,
+			fakes.writer,
+			fakes.rewriter,
+		]) {
+			expect(api.createCalls).toEqual([]);
+		}
+	});
+
+	it("reports requested language pairs", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				availability: (options) =>
+					options?.targetLanguage === "de" ? "available" : "unavailable",
+			},
+		});
+
+		const { translator } = await getCapabilities({
+			languagePairs: [
+				{ sourceLanguage: "en", targetLanguage: "de" },
+				{ sourceLanguage: "en", targetLanguage: "xx" },
+			],
+		});
+
+		expect(translator.languagePairs).toEqual([
+			{
+				sourceLanguage: "en",
+				targetLanguage: "de",
+				present: true,
+				availability: "available",
+			},
+			{
+				sourceLanguage: "en",
+				targetLanguage: "xx",
+				present: true,
+				availability: "unavailable",
+				reason:
+					'Translation from "en" to "xx" is not supported on this device.',
+			},
+		]);
+	});
+
+	it("reports requested modalities", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				availability: (options) =>
+					options?.expectedInputs?.some((input) => input.type === "audio")
+						? "unavailable"
+						: "available",
+			},
+		});
+
+		const { languageModel } = await getCapabilities({
+			modalities: [
+				{ expectedInputs: [{ type: "image" }] },
+				{ expectedInputs: [{ type: "audio" }] },
+			],
+		});
+
+		expect(languageModel.availability).toBe("available");
+		expect(languageModel.modalities).toEqual([
+			{
+				expectedInputs: [{ type: "image" }],
+				expectedOutputs: [{ type: "text", languages: ["en"] }],
+				present: true,
+				availability: "available",
+			},
+			{
+				expectedInputs: [{ type: "audio" }],
+				expectedOutputs: [{ type: "text", languages: ["en"] }],
+				present: true,
+				availability: "unavailable",
+				reason:
+					"The LanguageModel does not support these inputs and outputs on this device.",
+			},
+		]);
+	});
+
+	it("reports a failing availability check as a reason", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				availability: () => {
+					throw new Error("bad options");
+				},
+			},
+			languageModel: false,
+		});
+
+		const capabilities = await getCapabilities({
+			modalities: [{ expectedInputs: [{ type: "image" }] }],
+		});
+
+		expect(capabilities.languageDetector).toEqual({
+			present: true,
+			availability: undefined,
+			reason: "Failed to check Language Detector availability: bad options",
+		});
+		expect(capabilities.languageModel).toMatchObject({
+			present: false,
+			modalities: [],
+		});
+	});
+});
@@ -0,0 +1,184 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import type {
+	ApiCapability,
+	CapabilityOptions,
+	CapabilityReport,
+	LanguagePairCapability,
+	ModalityCapability,
+} from "./types";
+import { checkAvailability, DEFAULT_LANGUAGE_MODEL_EXPECTED } from "./utils";
+
+function missing(apiName: string): ApiCapability {
+	return {
+		present: false,
+		reason: `${apiName} API is not available in this browser. Ensure you are using a supported Chromium-based browser.`,
+	};
+}
+
+/**
+ * Runs one `availability()` check through `checkAvailability` and turns the
+ * outcome into a capability. Never calls `create()`, so nothing is downloaded.
+ */
+async function checkCapability(
+	apiName: string,
+	availabilityFn: () => Promise<Availability>,
+	unavailableReason?: string,
+): Promise<ApiCapability> {
+	let availability: Availability | undefined;
+	const result = await checkAvailability(async () => {
+		availability = await availabilityFn();
+		return availability;
+	}, apiName);
+
+	return result.match(
+		(ready): ApiCapability => {
+			if (ready === "available") {
+				return { present: true, availability: ready };
+			}
+			return {
+				present: true,
+				availability: ready,
+				reason:
+					ready === "downloadable"
+						? `The ${apiName} model is not on this device yet. Initializing ${apiName} starts the download.`
+						: `The ${apiName} model is downloading.`,
+			};
+		},
+		(error): ApiCapability => ({
+			present: true,
+			availability,
+			reason:
+				availability === "unavailable" && unavailableReason
+					? unavailableReason
+					: error.message,
+		}),
+	);
+}
+
+/**
+ * Reports which Chromium AI APIs can be used, without creating sessions or
+ * starting downloads. For each API it checks whether the global exists and
+ * what `availability()` returns for the options its `init*` function uses by
+ * default, plus any requested language pairs and Prompt API modalities.
+ * Never rejects: failures are reported as `reason`.
+ *
+ * @param options Language pairs and modalities to check
+ * @returns A CapabilityReport with one entry per API
+ *
+ * @example
+ * const capabilities = await getCapabilities({
+ *   languagePairs: [{ sourceLanguage: "en", targetLanguage: "de" }],
+ * });
+ * if (capabilities.summarizer.availability === "available") {
+ *   showSummarizeButton();
+ * }
+ */
+export async function getCapabilities(
+	options?: CapabilityOptions,
+): Promise<CapabilityReport> {
+	const languageModel = async (): Promise<
+		CapabilityReport["languageModel"]
+	> => {
+		if (typeof LanguageModel === "undefined") {
+			return { ...missing("LanguageModel"), modalities: [] };
+		}
+		const [base, modalities] = await Promise.all([
+			checkCapability("LanguageModel", () =>
+				LanguageModel.availability({
+					expectedInputs: DEFAULT_LANGUAGE_MODEL_EXPECTED,
+					expectedOutputs: DEFAULT_LANGUAGE_MODEL_EXPECTED,
+				}),
+			),
+			Promise.all(
+				(options?.modalities ?? []).map(
+					async (modality): Promise<ModalityCapability> => {
+						const expected = {
+							expectedInputs:
+								modality.expectedInputs ?? DEFAULT_LANGUAGE_MODEL_EXPECTED,
+							expectedOutputs:
+								modality.expectedOutputs ?? DEFAULT_LANGUAGE_MODEL_EXPECTED,
+						};
+						return {
+							...expected,
+							...(await checkCapability(
+								"LanguageModel",
+								() => LanguageModel.availability(expected),
+								"The LanguageModel does not support these inputs and outputs on this device.",
+							)),
+						};
+					},
+				),
+			),
+		]);
+		return { ...base, modalities };
+	};
+
+	const translator = async (): Promise<CapabilityReport["translator"]> => {
+		if (typeof Translator === "undefined") {
+			return { ...missing("Translator"), languagePairs: [] };
+		}
+		const languagePairs = await Promise.all(
+			(options?.languagePairs ?? []).map(
+				async (pair): Promise<LanguagePairCapability> => ({
+					sourceLanguage: pair.sourceLanguage,
+					targetLanguage: pair.targetLanguage,
+					...(await checkCapability(
+						"Translator",
+						() => Translator.availability(pair),
+						`Translation from "${pair.sourceLanguage}" to "${pair.targetLanguage}" is not supported on this device.`,
+					)),
+				}),
+			),
+		);
+		return { present: true, languagePairs };
+	};
+
+	const [
+		languageModelCapability,
+		translatorCapability,
+		languageDetector,
+		summarizer,
+		writer,
+		rewriter,
+		proofreader,
+	] = await Promise.all([
+		languageModel(),
+		translator(),
+		typeof LanguageDetector === "undefined"
+			? missing("Language Detector")
+			: checkCapability("Language Detector", () =>
+					LanguageDetector.availability(),
+				),
+		typeof Summarizer === "undefined"
+			? missing("Summarizer")
+			: checkCapability("Summarizer", () =>
+					Summarizer.availability({ outputLanguage: "en" }),
+				),
+		typeof Writer === "undefined"
+			? missing("Writer")
+			: checkCapability("Writer", () =>
+					Writer.availability({ outputLanguage: "en" }),
+				),
+		typeof Rewriter === "undefined"
+			? missing("Rewriter")
+			: checkCapability("Rewriter", () =>
+					Rewriter.availability({ outputLanguage: "en" }),
+				),
+		typeof Proofreader === "undefined"
+			? missing("Proofreader")
+			: checkCapability("Proofreader", () =>
+					Proofreader.availability({ includeCorrectionTypes: true }),
+				),
+	]);
+
+	return {
+		languageModel: languageModelCapability,
+		translator: translatorCapability,
+		languageDetector,
+		summarizer,
+		writer,
+		rewriter,
+		proofreader,
+	};
+}
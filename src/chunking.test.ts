@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { splitIntoChunks } from "./chunking";
+
+const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+const fitsWords = (max: number) => async (chunk: string) =>
+	wordCount(chunk) <= max;
+
+describe("splitIntoChunks", () => {
+	it("packs whole paragraphs while they fit", async () => {
+		const text = "One two.\n\nThree four.\n\n\nFive six seven.";
+
+		expect(await splitIntoChunks(text, fitsWords(4))).toEqual([
+			"One two.\n\nThree four.",
+			"Five six seven.",
+		]);
+	});
+
+	it("falls back to sentences, then words, for oversized paragraphs", async () => {
+		const text =
+			"First short one. Then a much longer sentence that cannot fit at all.";
+
+		const chunks = await splitIntoChunks(text, fitsWords(4));
+
+		expect(chunks).toEqual([
+			"First short one.",
+			"Then a much longer",
+			"sentence that cannot fit",
+			"at all.",
+		]);
+		expect(chunks.every((chunk) => wordCount(chunk) <= 4)).toBe(true);
+	});
+
+	it("returns no chunks for blank text", async () => {
+		expect(await splitIntoChunks(" \n\n ", fitsWords(4))).toEqual([]);
+	});
+});
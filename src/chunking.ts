@@ -0,0 +1,102 @@
+/** The part of Intl.Segmenter used here, declared locally as its types need the ES2022 lib */
+type SentenceSegmenterConstructor = new (
+	locales: undefined,
+	options: { granularity: "sentence" },
+) => { segment(text: string): Iterable<{ segment: string }> };
+
+/**
+ * Splits text into sentences, using Intl.Segmenter where available.
+ * Each sentence keeps its trailing whitespace so joining them restores the text.
+ */
+export function splitSentences(text: string): string[] {
+	const Segmenter =
+		typeof Intl !== "undefined"
+			? (Intl as { Segmenter?: SentenceSegmenterConstructor }).Segmenter
+			: undefined;
+	if (Segmenter) {
+		const segmenter = new Segmenter(undefined, { granularity: "sentence" });
+		return Array.from(segmenter.segment(text), (part) => part.segment);
+	}
+	return text.match(/[^.!?]+(?:[.!?]+\s*|$)/g) ?? [text];
+}
+
+function splitWords(text: string): string[] {
+	return text.match(/\S+\s*/g) ?? [text];
+}
+
+/**
+ * Greedily packs `parts` into as few chunks as possible, each accepted by
+ * `fits`. A part that does not fit on its own is split further with
+ * `splitPart`; if it cannot be split, it becomes a chunk by itself.
+ * Parts keep their trailing whitespace, so the chunks join back into the input.
+ */
+async function pack(
+	parts: string[],
+	fits: (chunk: string) => Promise<boolean>,
+	splitPart: (part: string) => Promise<string[]>,
+): Promise<string[]> {
+	const chunks: string[] = [];
+	let current = "";
+
+	for (const part of parts) {
+		const candidate = `${current}${part}`;
+		if (await fits(candidate)) {
+			current = candidate;
+			continue;
+		}
+		if (current) {
+			chunks.push(current);
+			current = "";
+		}
+		if (await fits(part)) {
+			current = part;
+		} else {
+			chunks.push(...(await splitPart(part)));
+		}
+	}
+
+	if (current) {
+		chunks.push(current);
+	}
+	return chunks;
+}
+
+/**
+ * Like `splitIntoChunks()`, but each chunk keeps its surrounding whitespace,
+ * so joining the chunks with "" restores `text` exactly.
+ */
+export async function splitIntoSeparatedChunks(
+	text: string,
+	fits: (chunk: string) => Promise<boolean>,
+): Promise<string[]> {
+	// Each paragraph keeps the blank lines after it
+	const paragraphs = text.match(/[\s\S]+?(?:\n\s*\n|$)/g) ?? [];
+
+	const splitWord = async (word: string) => [word];
+	const splitSentence = async (sentence: string) =>
+		pack(splitWords(sentence), fits, splitWord);
+	const splitParagraph = async (paragraph: string) =>
+		pack(splitSentences(paragraph), fits, splitSentence);
+
+	return pack(paragraphs, fits, splitParagraph);
+}
+
+/**
+ * Splits text into chunks that `fits` accepts, breaking on paragraph
+ * boundaries first, then sentences, then words. `fits` is typically backed by
+ * a native `measureInputUsage()` so chunks respect the model's input quota.
+ *
+ * @example
+ * const chunks = await splitIntoChunks(article, async (chunk) =>
+ *   (await summarizer.measureInputUsage(chunk)) <= summarizer.inputQuota,
+ * );
+ */
+export async function splitIntoChunks(
+	text: string,
+	fits: (chunk: string) => Promise<boolean>,
+): Promise<string[]> {
+	const chunks = await splitIntoSeparatedChunks(text, fits);
+	return chunks
+		.map((chunk) => chunk.trim())
+		.filter((chunk) => chunk.length > 0);
+}
@@ -0,0 +1,465 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import {
+	type ChromiumAIError,
+	ContextOverflowError,
+	InvalidInputError,
+	OperationFailedError,
+	toChromiumAIError,
+} from "./errors";
+import { type JsonSchema, validateJsonSchema } from "./json-schema";
+import { runScheduled, type Scheduler } from "./scheduler";
+import type {
+	ContextCompactionEvent,
+	ContextManagementOptions,
+	ConversationMessage,
+	ConversationOptions,
+	ConversationSnapshot,
+	SafeConversation,
+} from "./types";
+import { withPromptTimeout } from "./utils";
+
+const snapshotSchema: JsonSchema = {
+	type: "object",
+	properties: {
+		version: { const: 1 },
+		messages: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					role: { enum: ["system", "user", "assistant"] },
+					content: { type: "string" },
+				},
+				required: ["role", "content"],
+			},
+		},
+	},
+	required: ["version", "messages"],
+};
+
+/**
+ * Validates a value produced by `SafeConversation.toJSON()`, either as the
+ * object itself or as its JSON string.
+ */
+export function parseConversationSnapshot(
+	snapshot: ConversationSnapshot | string,
+): Result<ConversationSnapshot, ChromiumAIError> {
+	let value: unknown = snapshot;
+	if (typeof snapshot === "string") {
+		try {
+			value = JSON.parse(snapshot);
+		} catch (error) {
+			return err(
+				new InvalidInputError(
+					`Invalid conversation snapshot: ${error instanceof Error ? error.message : String(error)}`,
+					{ api: "LanguageModel", cause: error },
+				),
+			);
+		}
+	}
+
+	const issues = validateJsonSchema(value, snapshotSchema);
+	const parsed = value as ConversationSnapshot;
+	if (issues.length === 0) {
+		parsed.messages.forEach((message, index) => {
+			if (message.role === "system" && index > 0) {
+				issues.push(
+					`$.messages[${index}]: a system message is only allowed first`,
+				);
+			}
+		});
+	}
+
+	if (issues.length > 0) {
+		return err(
+			new InvalidInputError(
+				`Invalid conversation snapshot: ${issues.join("; ")}`,
+				{ api: "LanguageModel" },
+			),
+		);
+	}
+
+	return ok({
+		version: 1,
+		messages: parsed.messages.map(({ role, content }) => ({ role, content })),
+	});
+}
+
+function toInitialPrompts(
+	messages: ConversationMessage[],
+): LanguageModelCreateOptions["initialPrompts"] {
+	const [first, ...rest] = messages;
+	if (!first) {
+		return undefined;
+	}
+	// The native type only allows the system role in the first position.
+	const history = rest as LanguageModelMessage[];
+	return first.role === "system"
+		? [{ role: "system", content: first.content }, ...history]
+		: [{ role: first.role, content: first.content }, ...history];
+}
+
+const SUMMARY_HEADING = "Summary of the earlier conversation:\n";
+
+/**
+ * The session the next prompt goes to. After a compaction, it was opened from
+ * `compaction.messages`, which become the history once the prompt succeeds.
+ */
+interface FittedContext {
+	session: LanguageModel;
+	compaction?: {
+		messages: ConversationMessage[];
+		event: ContextCompactionEvent;
+	};
+}
+
+type OpenSession = (
+	options: LanguageModelCreateOptions,
+) => ResultAsync<LanguageModel, ChromiumAIError>;
+
+/**
+ * Splits the system message into the caller's prompt and the summary added by
+ * an earlier "summarize" compaction, so summaries replace each other instead
+ * of piling up.
+ */
+function splitSystemMessage(messages: ConversationMessage[]): {
+	systemPrompt: string | undefined;
+	previousSummary: string | undefined;
+	turns: ConversationMessage[];
+} {
+	const [first, ...rest] = messages;
+	if (first?.role !== "system") {
+		return {
+			systemPrompt: undefined,
+			previousSummary: undefined,
+			turns: messages,
+		};
+	}
+
+	const headingIndex = first.content.indexOf(SUMMARY_HEADING);
+	if (headingIndex === -1) {
+		return {
+			systemPrompt: first.content,
+			previousSummary: undefined,
+			turns: rest,
+		};
+	}
+	return {
+		systemPrompt: first.content.slice(0, headingIndex).trim() || undefined,
+		previousSummary: first.content.slice(headingIndex + SUMMARY_HEADING.length),
+		turns: rest,
+	};
+}
+
+function buildSummaryPrompt(
+	previousSummary: string | undefined,
+	turns: ConversationMessage[],
+): string {
+	return [
+		"Summarize the following conversation in a few sentences. Keep names, facts and decisions that later messages may rely on.",
+		"",
+		...(previousSummary !== undefined
+			? [`Earlier summary: ${previousSummary}`]
+			: []),
+		...turns.map(
+			(message) =>
+				`${message.role === "user" ? "User" : "Assistant"}: ${message.content}`,
+		),
+	].join("\n");
+}
+
+async function summarizeTurns(
+	openSession: OpenSession,
+	sessionOptions: LanguageModelCreateOptions,
+	previousSummary: string | undefined,
+	turns: ConversationMessage[],
+): Promise<string> {
+	const opened = await openSession(sessionOptions);
+	if (opened.isErr()) {
+		throw opened.error;
+	}
+	try {
+		return await opened.value.prompt(
+			buildSummaryPrompt(previousSummary, turns),
+		);
+	} finally {
+		opened.value.destroy();
+	}
+}
+
+/**
+ * Creates a conversation over `messages`. The session is opened lazily on the
+ * first `send()` with the history as `initialPrompts`, so the same path serves
+ * new and restored conversations. Sends run one at a time so the recorded
+ * history always matches the order the model saw, and each takes a slot of
+ * `scheduler` once the previous one has finished.
+ */
+export function createConversation(
+	openSession: OpenSession,
+	scheduler: Scheduler | undefined,
+	messages: ConversationMessage[],
+	options?: Omit<ConversationOptions, "systemPrompt">,
+): SafeConversation {
+	let history = [...messages];
+	let session: LanguageModel | null = null;
+	let lastTurn: Promise<unknown> = Promise.resolve();
+	const sessionOptions = options?.sessionOptions;
+	const management = options?.contextManagement;
+
+	async function openFromHistory(): Promise<
+		Result<LanguageModel, ChromiumAIError>
+	> {
+		const opened = await openSession({
+			...sessionOptions,
+			initialPrompts: toInitialPrompts(history),
+		});
+		if (opened.isOk()) {
+			session = opened.value;
+		}
+		return opened;
+	}
+
+	/**
+	 * Computes which turns to remove from the start of the history according to
+	 * the strategy, without changing the history. Token counts per message are
+	 * measured on the current session, so the result is an estimate that is
+	 * checked again on the new session.
+	 */
+	async function compact(
+		current: LanguageModel,
+		promptTokens: number,
+		limit: number,
+		strategy: ContextManagementOptions["strategy"],
+	): Promise<
+		Omit<ContextCompactionEvent, "contextUsageAfter" | "contextWindow"> & {
+			messages: ConversationMessage[];
+		}
+	> {
+		const { systemPrompt, previousSummary, turns } =
+			splitSystemMessage(history);
+		const contextUsageBefore = current.contextUsage;
+
+		if (strategy === "drop-oldest") {
+			let usage = contextUsageBefore;
+			let dropCount = 0;
+			while (usage + promptTokens > limit && dropCount < turns.length) {
+				// Drop whole user/assistant pairs so the history never starts mid-turn.
+				for (const message of turns.slice(dropCount, dropCount + 2)) {
+					usage -= await current.measureContextUsage(message.content);
+				}
+				dropCount += 2;
+			}
+			return {
+				strategy,
+				removedMessages: turns.slice(0, dropCount),
+				contextUsageBefore,
+				messages: [
+					...history.slice(0, history.length - turns.length),
+					...turns.slice(dropCount),
+				],
+			};
+		}
+
+		const keepCount = (management?.keepRecentTurns ?? 2) * 2;
+		const older = turns.slice(0, Math.max(turns.length - keepCount, 0));
+		if (older.length === 0) {
+			return {
+				strategy: "summarize",
+				removedMessages: [],
+				contextUsageBefore,
+				messages: history,
+			};
+		}
+		const summary = await summarizeTurns(
+			openSession,
+			{ ...sessionOptions },
+			previousSummary,
+			older,
+		);
+		return {
+			strategy: "summarize",
+			removedMessages: older,
+			summary,
+			contextUsageBefore,
+			messages: [
+				{
+					role: "system",
+					content:
+						systemPrompt !== undefined
+							? `${systemPrompt}\n\n${SUMMARY_HEADING}${summary}`
+							: `${SUMMARY_HEADING}${summary}`,
+				},
+				...turns.slice(older.length),
+			],
+		};
+	}
+
+	/**
+	 * Applies the context strategy if `text` would push the session past the
+	 * threshold. A compacted history comes back with a session opened from it;
+	 * neither replaces the conversation's own until the turn succeeds.
+	 */
+	async function fitContext(
+		current: LanguageModel,
+		text: string,
+		strategy: ContextManagementOptions["strategy"],
+	): Promise<Result<FittedContext, ChromiumAIError>> {
+		const promptTokens = await current.measureContextUsage(text);
+		const limit = current.contextWindow * (management?.threshold ?? 0.9);
+		if (current.contextUsage + promptTokens <= limit) {
+			return ok({ session: current });
+		}
+		if (strategy === "error") {
+			return err(
+				new ContextOverflowError(
+					promptTokens,
+					current.contextUsage,
+					current.contextWindow,
+				),
+			);
+		}
+
+		const { messages: compacted, ...compaction } = await compact(
+			current,
+			promptTokens,
+			limit,
+			strategy,
+		);
+		if (compaction.removedMessages.length === 0) {
+			return err(
+				new ContextOverflowError(
+					promptTokens,
+					current.contextUsage,
+					current.contextWindow,
+				),
+			);
+		}
+
+		const reopened = await openSession({
+			...sessionOptions,
+			initialPrompts: toInitialPrompts(compacted),
+		});
+		if (reopened.isErr()) {
+			return err(reopened.error);
+		}
+
+		const next = reopened.value;
+		if (next.contextUsage + promptTokens > limit) {
+			next.destroy();
+			return err(
+				new ContextOverflowError(
+					promptTokens,
+					next.contextUsage,
+					next.contextWindow,
+				),
+			);
+		}
+		return ok({
+			session: next,
+			compaction: {
+				messages: compacted,
+				event: {
+					...compaction,
+					contextUsageAfter: next.contextUsage,
+					contextWindow: next.contextWindow,
+				},
+			},
+		});
+	}
+
+	async function takeTurn(
+		text: string,
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions,
+	): Promise<Result<string, ChromiumAIError>> {
+		let current = session;
+		if (!current) {
+			const opened = await openFromHistory();
+			if (opened.isErr()) {
+				return err(opened.error);
+			}
+			current = opened.value;
+		}
+
+		let fitted: FittedContext = { session: current };
+		if (management) {
+			let result: Result<FittedContext, ChromiumAIError>;
+			try {
+				result = await fitContext(current, text, management.strategy);
+			} catch (error) {
+				result = err(
+					toChromiumAIError(
+						error,
+						"LanguageModel",
+						(message, details) =>
+							new OperationFailedError(
+								`Failed to compact conversation: ${message}`,
+								details,
+							),
+					),
+				);
+			}
+			if (result.isErr()) {
+				return err(result.error);
+			}
+			fitted = result.value;
+		}
+
+		const prepared = withPromptTimeout(timeout, promptOptions);
+		let response: string;
+		try {
+			response = await fitted.session.prompt(text, prepared.promptOptions);
+		} catch (error) {
+			// The conversation keeps its history and session for the next send
+			if (fitted.compaction) {
+				fitted.session.destroy();
+			}
+			return err(prepared.toError(error));
+		} finally {
+			prepared.clear();
+		}
+
+		if (fitted.compaction) {
+			current.destroy();
+			session = fitted.session;
+			history = fitted.compaction.messages;
+			try {
+				management?.onCompact?.(fitted.compaction.event);
+			} catch {
+				// The turn succeeded, so a failing callback must not lose it
+			}
+		}
+		history.push(
+			{ role: "user", content: text },
+			{ role: "assistant", content: response },
+		);
+		return ok(response);
+	}
+
+	return {
+		get messages() {
+			return history.map((message) => ({ ...message }));
+		},
+		send: (text, timeout, promptOptions) => {
+			const turn = lastTurn.then(() =>
+				runScheduled(
+					scheduler,
+					{ signal: promptOptions?.signal },
+					() => new ResultAsync(takeTurn(text, timeout, promptOptions)),
+				),
+			);
+			lastTurn = turn;
+			return new ResultAsync(turn);
+		},
+		toJSON: () => ({
+			version: 1,
+			messages: history.map((message) => ({ ...message })),
+		}),
+		destroy: () => {
+			session?.destroy();
+			session = null;
+		},
+	};
+}
@@ -0,0 +1,337 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { ContextOverflowError } from "./errors";
+import { initLanguageModel } from "./index";
+import { initLanguageModel as safeInitLanguageModel } from "./safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import type { ContextCompactionEvent } from "./types";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("createConversation", () => {
+	it("records each exchange and reuses one session", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (_input, session) => `Reply ${session.history.length}`,
+			},
+		});
+		const ai = await initLanguageModel();
+		const conversation = ai.createConversation({ systemPrompt: "Be brief" });
+
+		await expect(conversation.send("Hi")).resolves.toBe("Reply 1");
+		await expect(conversation.send("Again")).resolves.toBe("Reply 3");
+
+		expect(conversation.messages).toEqual([
+			{ role: "system", content: "Be brief" },
+			{ role: "user", content: "Hi" },
+			{ role: "assistant", content: "Reply 1" },
+			{ role: "user", content: "Again" },
+			{ role: "assistant", content: "Reply 3" },
+		]);
+		expect(fakes.languageModel.sessions).toHaveLength(1);
+	});
+
+	it("does not create a session until the first send", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel();
+
+		ai.createConversation();
+
+		expect(fakes.languageModel.createCalls).toHaveLength(0);
+	});
+
+	it("keeps concurrent sends in call order", async () => {
+		const latencies = [30, 0];
+		fakes = installChromiumAIFakes({ languageModel: { latency: 0 } });
+		fakes.languageModel.respond = async (input) => {
+			await new Promise((resolve) => setTimeout(resolve, latencies.shift()));
+			return `Re: ${typeof input === "string" ? input : ""}`;
+		};
+		const ai = await initLanguageModel();
+		const conversation = ai.createConversation();
+
+		await Promise.all([
+			conversation.send("first"),
+			conversation.send("second"),
+		]);
+
+		expect(conversation.messages.map((message) => message.content)).toEqual([
+			"first",
+			"Re: first",
+			"second",
+			"Re: second",
+		]);
+	});
+
+	it("leaves the history unchanged when a send fails", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { latency: 50 } });
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+		const conversation = ai.createConversation();
+
+		const result = await conversation.send("Hi", 5);
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Timeout");
+		expect(conversation.messages).toEqual([]);
+	});
+
+	it("opens a new session from the history after destroy", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Ok" } });
+		const ai = await initLanguageModel();
+		const conversation = ai.createConversation();
+
+		await conversation.send("Hi");
+		conversation.destroy();
+		await conversation.send("Still there?");
+
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+		expect(fakes.languageModel.createCalls[1]?.initialPrompts).toEqual([
+			{ role: "user", content: "Hi" },
+			{ role: "assistant", content: "Ok" },
+		]);
+	});
+});
+
+describe("restoreConversation", () => {
+	it("round-trips through JSON and restores the history as initialPrompts", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Sure" } });
+		const ai = await initLanguageModel();
+		const original = ai.createConversation({ systemPrompt: "Be kind" });
+		await original.send("Help me");
+
+		const restored = ai.restoreConversation(JSON.stringify(original), {
+			sessionOptions: { temperature: 0.5 },
+		});
+		await restored.send("Thanks");
+
+		expect(fakes.languageModel.createCalls[1]).toMatchObject({
+			temperature: 0.5,
+			initialPrompts: [
+				{ role: "system", content: "Be kind" },
+				{ role: "user", content: "Help me" },
+				{ role: "assistant", content: "Sure" },
+			],
+		});
+		expect(restored.toJSON()).toEqual({
+			version: 1,
+			messages: [...original.messages, ...restored.messages.slice(3)],
+		});
+		expect(restored.messages).toHaveLength(5);
+	});
+
+	it("rejects a malformed snapshot with InvalidInput", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+
+		const notJson = ai.restoreConversation("{");
+		const misplacedSystem = ai.restoreConversation({
+			version: 1,
+			messages: [
+				{ role: "user", content: "Hi" },
+				{ role: "system", content: "Late" },
+			],
+		});
+
+		expect(notJson._unsafeUnwrapErr().kind).toBe("InvalidInput");
+		expect(misplacedSystem._unsafeUnwrapErr().message).toBe(
+			"Invalid conversation snapshot: $.messages[1]: a system message is only allowed first",
+		);
+	});
+
+	it("throws from the throwing variant", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel();
+
+		expect(() => ai.restoreConversation('{"version": 2}')).toThrow(
+			/Invalid conversation snapshot/,
+		);
+	});
+});
+
+describe("contextManagement", () => {
+	// Every prompt and message costs 10 tokens, so with a 50-token window and
+	// the default 0.9 threshold, the third send of a conversation with a system
+	// prompt no longer fits.
+	const languageModel = {
+		contextWindow: 50,
+		countTokens: (input: string | unknown[]) =>
+			typeof input === "string" ? 10 : input.length * 10,
+	};
+
+	it("drops the oldest turn and reports the compaction", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { ...languageModel, respond: "Ok" },
+		});
+		const ai = await initLanguageModel();
+		const events: ContextCompactionEvent[] = [];
+		const conversation = ai.createConversation({
+			systemPrompt: "Be brief",
+			contextManagement: {
+				strategy: "drop-oldest",
+				onCompact: (event) => events.push(event),
+			},
+		});
+
+		await conversation.send("one");
+		await conversation.send("two");
+		await conversation.send("three");
+
+		expect(events).toEqual([
+			{
+				strategy: "drop-oldest",
+				removedMessages: [
+					{ role: "user", content: "one" },
+					{ role: "assistant", content: "Ok" },
+				],
+				contextUsageBefore: 50,
+				contextUsageAfter: 30,
+				contextWindow: 50,
+			},
+		]);
+		expect(conversation.messages.map((message) => message.content)).toEqual([
+			"Be brief",
+			"two",
+			"Ok",
+			"three",
+			"Ok",
+		]);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("keeps the full history when the send after a compaction fails", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				...languageModel,
+				respond: (input) => {
+					if (input === "three") {
+						throw new DOMException("Model crashed", "UnknownError");
+					}
+					return "Ok";
+				},
+			},
+		});
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+		const events: ContextCompactionEvent[] = [];
+		const conversation = ai.createConversation({
+			systemPrompt: "Be brief",
+			contextManagement: {
+				strategy: "drop-oldest",
+				onCompact: (event) => events.push(event),
+			},
+		});
+
+		await conversation.send("one");
+		await conversation.send("two");
+		const failed = await conversation.send("three");
+
+		expect(failed.isErr()).toBe(true);
+		expect(events).toEqual([]);
+		expect(conversation.messages.map((message) => message.content)).toEqual([
+			"Be brief",
+			"one",
+			"Ok",
+			"two",
+			"Ok",
+		]);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(false);
+
+		await conversation.send("four");
+
+		expect(events).toHaveLength(1);
+		expect(conversation.messages.map((message) => message.content)).toEqual([
+			"Be brief",
+			"two",
+			"Ok",
+			"four",
+			"Ok",
+		]);
+	});
+
+	it("summarizes older turns into the system message", async () => {
+		const summaryPrompts: string[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				...languageModel,
+				respond: (input) => {
+					if (typeof input === "string" && input.startsWith("Summarize")) {
+						summaryPrompts.push(input);
+						return "They counted";
+					}
+					return "Ok";
+				},
+			},
+		});
+		const ai = await initLanguageModel();
+		const events: ContextCompactionEvent[] = [];
+		const conversation = ai.createConversation({
+			systemPrompt: "Be brief",
+			contextManagement: {
+				strategy: "summarize",
+				keepRecentTurns: 1,
+				onCompact: (event) => events.push(event),
+			},
+		});
+
+		await conversation.send("one");
+		await conversation.send("two");
+		await conversation.send("three");
+
+		expect(summaryPrompts[0]).toContain("User: one\nAssistant: Ok");
+		expect(events[0]).toMatchObject({
+			strategy: "summarize",
+			summary: "They counted",
+			removedMessages: [
+				{ role: "user", content: "one" },
+				{ role: "assistant", content: "Ok" },
+			],
+		});
+		expect(conversation.messages[0]).toEqual({
+			role: "system",
+			content: "Be brief\n\nSummary of the earlier conversation:\nThey counted",
+		});
+		expect(conversation.messages).toHaveLength(5);
+
+		await conversation.send("four");
+
+		expect(summaryPrompts[1]).toContain("Earlier summary: They counted");
+		expect(conversation.messages[0]?.content).toBe(
+			"Be brief\n\nSummary of the earlier conversation:\nThey counted",
+		);
+	});
+
+	it("fails with ContextOverflow under the error strategy", async () => {
+		fakes = installChromiumAIFakes({ languageModel });
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+		const conversation = ai.createConversation({
+			systemPrompt: "Be brief",
+			contextManagement: { strategy: "error" },
+		});
+
+		await conversation.send("one");
+		await conversation.send("two");
+		const error = (await conversation.send("three"))._unsafeUnwrapErr();
+
+		expect(error).toBeInstanceOf(ContextOverflowError);
+		expect(error).toMatchObject({
+			promptTokens: 10,
+			contextUsage: 50,
+			contextWindow: 50,
+		});
+		expect(conversation.messages).toHaveLength(5);
+	});
+
+	it("fails with ContextOverflow when nothing is left to compact", async () => {
+		fakes = installChromiumAIFakes({ languageModel });
+		const ai = (await safeInitLanguageModel())._unsafeUnwrap();
+		const conversation = ai.createConversation({
+			systemPrompt: "Be brief",
+			contextManagement: { strategy: "drop-oldest", threshold: 0.3 },
+		});
+
+		const result = await conversation.send("one");
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ContextOverflow");
+	});
+});
@@ -0,0 +1,21 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import type { Conversation, SafeConversation } from "./types";
+import { okOrThrow } from "./utils";
+
+/**
+ * Wraps a SafeConversation so that `send()` throws instead of returning a Result.
+ */
+export function toConversation(safe: SafeConversation): Conversation {
+	return {
+		get messages() {
+			return safe.messages;
+		},
+		send: async (text, timeout, promptOptions) => {
+			const result = await safe.send(text, timeout, promptOptions);
+			return okOrThrow(result);
+		},
+		toJSON: () => safe.toJSON(),
+		destroy: () => safe.destroy(),
+	};
+}
@@ -1,15 +1,97 @@
 /// <reference types="@types/dom-chromium-ai" />
 
-import { errAsync, ResultAsync } from "neverthrow";
-import type { SafeDetectorInstance } from "./types";
-import { checkAvailability } from "./utils";
+import { err, errAsync, ok, type Result, ResultAsync } from "neverthrow";
+import { runBatch } from "./batch";
+import { splitSentences } from "./chunking";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import { resolveRetryPolicy, withRetry } from "./retry";
+import { runScheduled } from "./scheduler";
+import type {
+	DetectorInitOptions,
+	DetectSegmentsOptions,
+	LanguageGuess,
+	LanguageSegment,
+	SafeDetectorInstance,
+} from "./types";
+import {
+	checkAvailability,
+	initFailure,
+	prepareInit,
+	sameLanguage,
+} from "./utils";
+
+/**
+ * Picks the most confident detection among the allowed languages, skipping
+ * "und". Below `minConfidence` the text is undetermined.
+ */
+function guessLanguage(
+	detections: LanguageDetectionResult[],
+	minConfidence: number,
+	allowedLanguages: readonly string[] | undefined,
+): LanguageGuess {
+	const candidates = detections
+		.filter(
+			({ detectedLanguage }) =>
+				detectedLanguage !== undefined &&
+				detectedLanguage !== "und" &&
+				(!allowedLanguages ||
+					allowedLanguages.some((allowed) =>
+						sameLanguage(allowed, detectedLanguage),
+					)),
+		)
+		.sort((a, b) => (b.confidence ?? 0) - (a.confidence ?? 0));
+
+	const best = candidates[0];
+	if (best?.detectedLanguage === undefined) {
+		return { determined: false };
+	}
+	const guess = {
+		language: best.detectedLanguage,
+		confidence: best.confidence ?? 0,
+	};
+	return guess.confidence >= minConfidence
+		? { determined: true, ...guess }
+		: { determined: false, bestGuess: guess };
+}
+
+/**
+ * Splits text into trimmed sentences or paragraphs with their offsets,
+ * skipping whitespace-only parts.
+ */
+function splitSegments(
+	text: string,
+	granularity: DetectSegmentsOptions["granularity"],
+): Pick<LanguageSegment, "text" | "start" | "end">[] {
+	const parts =
+		granularity === "paragraph"
+			? text.split(/(\n\s*\n)/)
+			: splitSentences(text);
+	const segments: Pick<LanguageSegment, "text" | "start" | "end">[] = [];
+	let offset = 0;
+	for (const part of parts) {
+		const trimmed = part.trim();
+		if (trimmed) {
+			const start = offset + part.length - part.trimStart().length;
+			segments.push({ text: trimmed, start, end: start + trimmed.length });
+		}
+		offset += part.length;
+	}
+	return segments;
+}
 
 /**
  * Initializes the Language Detector API by checking availability and triggering model download.
- * Returns a safe instance object with `.detect()` and `.createSession()` methods.
+ * Returns a safe instance object with `.detect()`, `.detectMany()`, `.detectLanguage()`,
+ * `.detectSegments()` and `.createSession()` methods.
  *
- * @param options Optional options with expected input languages
- * @returns A Result containing a SafeDetectorInstance or an Error
+ * @param options Optional options with expected input languages (also the default allowed languages of `detectLanguage()`), progress, signal, timeout, retry policy and scheduler
+ * @returns A Result containing a SafeDetectorInstance or a ChromiumAIError
  *
  * @example
  * const result = await initDetector();
@@ -19,55 +101,162 @@ import { checkAvailability } from "./utils";
  * );
  */
 export function initDetector(
-	options?: LanguageDetectorCreateOptions,
-): ResultAsync<SafeDetectorInstance, Error> {
+	options?: DetectorInitOptions,
+): ResultAsync<SafeDetectorInstance, ChromiumAIError> {
+	const {
+		retry: retryPolicy,
+		scheduler,
+		onProgress,
+		timeout,
+		...nativeOptions
+	} = options ?? {};
 	if (typeof LanguageDetector === "undefined") {
 		return errAsync(
-			new Error(
+			new ApiNotPresentError(
 				"Language Detector API is not available in this browser. Ensure you are using Chrome 138+ or a supported Chromium-based browser.",
+				{ api: "Language Detector" },
 			),
 		);
 	}
 
-	return checkAvailability(
-		() => LanguageDetector.availability(options),
+	const init = prepareInit("Language Detector", {
+		...nativeOptions,
+		onProgress,
+		timeout,
+	});
+	const initialized = checkAvailability(
+		() => LanguageDetector.availability(nativeOptions),
 		"Language Detector",
-	).andThen(() =>
+	).andThen((availability) =>
 		ResultAsync.fromPromise(
 			(async () => {
 				// Create and keep the session alive for reuse
-				const detector = await LanguageDetector.create(options);
+				const detector = await LanguageDetector.create({
+					...nativeOptions,
+					...init.createOptions,
+				});
 
-				const instance: SafeDetectorInstance = {
-					detect: (text, signal) =>
-						ResultAsync.fromPromise(
-							detector.detect(text, signal ? { signal } : undefined),
-							(error) =>
-								error instanceof Error
-									? error
-									: new Error(`Language detection failed: ${String(error)}`),
+				const detect: SafeDetectorInstance["detect"] = (
+					text,
+					signal,
+					callOptions,
+				) =>
+					withRetry(
+						resolveRetryPolicy(retryPolicy, callOptions?.retry),
+						signal,
+						() =>
+							runScheduled(
+								scheduler,
+								{ priority: callOptions?.priority, signal },
+								() =>
+									ResultAsync.fromPromise(
+										detector.detect(text, signal ? { signal } : undefined),
+										(error) =>
+											toChromiumAIError(
+												error,
+												"Language Detector",
+												(message, details) =>
+													new OperationFailedError(
+														`Language detection failed: ${message}`,
+														details,
+													),
+											),
+									),
+							),
+					);
+				const detectLanguage: SafeDetectorInstance["detectLanguage"] = (
+					text,
+					languageOptions,
+				) => {
+					const { minConfidence, allowedLanguages, signal, ...callOptions } =
+						languageOptions ?? {};
+					return detect(text, signal, callOptions).map((detections) =>
+						guessLanguage(
+							detections,
+							minConfidence ?? 0.5,
+							allowedLanguages ?? nativeOptions.expectedInputLanguages,
 						),
-					createSession: (createOptions) =>
-						ResultAsync.fromPromise(
-							LanguageDetector.create(createOptions ?? options),
-							(error) =>
-								error instanceof Error
-									? error
-									: new Error(
-											`Failed to create Language Detector session: ${String(error)}`,
+					);
+				};
+
+				const instance: SafeDetectorInstance = {
+					detect,
+					detectMany: (texts, batchOptions) => {
+						const {
+							concurrency: _concurrency,
+							onProgress: _onProgress,
+							signal,
+							...callOptions
+						} = batchOptions ?? {};
+						return runBatch(texts, batchOptions, "Language Detector", (text) =>
+							detect(text, signal, callOptions),
+						);
+					},
+					detectLanguage,
+					detectSegments: (text, segmentOptions) => {
+						const { granularity, ...languageOptions } = segmentOptions ?? {};
+						return new ResultAsync(
+							(async (): Promise<
+								Result<LanguageSegment[], ChromiumAIError>
+							> => {
+								const segments: LanguageSegment[] = [];
+								// One at a time, so a long text does not flood the detector
+								for (const segment of splitSegments(text, granularity)) {
+									const guess = await detectLanguage(
+										segment.text,
+										languageOptions,
+									);
+									if (guess.isErr()) {
+										return err(guess.error);
+									}
+									segments.push({ ...segment, ...guess.value });
+								}
+								return ok(segments);
+							})(),
+						);
+					},
+					createSession: (createOptions, callOptions) => {
+						const sessionOptions = createOptions ?? nativeOptions;
+						return withRetry(
+							resolveRetryPolicy(retryPolicy, callOptions?.retry),
+							sessionOptions.signal,
+							() =>
+								runScheduled(
+									scheduler,
+									{
+										priority: callOptions?.priority,
+										signal: sessionOptions.signal,
+									},
+									() =>
+										ResultAsync.fromPromise(
+											LanguageDetector.create(sessionOptions),
+											(error) =>
+												toChromiumAIError(
+													error,
+													"Language Detector",
+													(message, details) =>
+														new SessionCreateFailedError(
+															`Failed to create Language Detector session: ${message}`,
+															details,
+														),
+												),
 										),
-						),
+								),
+						);
+					},
 					destroy: () => detector.destroy(),
 				};
 
 				return instance;
 			})(),
 			(error) =>
-				error instanceof Error
-					? error
-					: new Error(
-							`Failed to initialize Language Detector: ${String(error)}`,
-						),
+				toChromiumAIError(
+					error,
+					"Language Detector",
+					initFailure(availability, "Language Detector"),
+				),
 		),
 	);
+
+	return initialized.map(init.succeeded).mapErr(init.failed);
 }
@@ -0,0 +1,228 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initDetector } from "./detector";
+import { initDetector as safeInitDetector } from "./detector-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initDetector", () => {
+	it("fails with ApiNotPresent when the global is missing", async () => {
+		fakes = installChromiumAIFakes({ languageDetector: false });
+
+		const result = await safeInitDetector();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ApiNotPresent");
+	});
+
+	it("returns the detector's results", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [
+					{ detectedLanguage: "fr", confidence: 0.9 },
+					{ detectedLanguage: "en", confidence: 0.1 },
+				],
+			},
+		});
+		const detector = await initDetector();
+
+		await expect(detector.detect("Bonjour")).resolves.toEqual([
+			{ detectedLanguage: "fr", confidence: 0.9 },
+			{ detectedLanguage: "en", confidence: 0.1 },
+		]);
+	});
+
+	it("creates sessions with the init options unless overridden", async () => {
+		fakes = installChromiumAIFakes();
+		const detector = await initDetector({ expectedInputLanguages: ["fr"] });
+
+		await detector.createSession();
+		await detector.createSession({ expectedInputLanguages: ["de"] });
+
+		expect(fakes.languageDetector.createCalls).toEqual([
+			{ expectedInputLanguages: ["fr"] },
+			{ expectedInputLanguages: ["fr"] },
+			{ expectedInputLanguages: ["de"] },
+		]);
+	});
+
+	it("fails with Aborted when the signal is already aborted", async () => {
+		fakes = installChromiumAIFakes();
+
+		const result = await safeInitDetector({ signal: AbortSignal.abort() });
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Aborted");
+	});
+
+	it("reports input over the quota as QuotaExceeded", async () => {
+		fakes = installChromiumAIFakes({ languageDetector: { inputQuota: 1 } });
+		const detector = (await safeInitDetector())._unsafeUnwrap();
+
+		const result = await detector.detect("Far too long for the quota");
+
+		expect(result._unsafeUnwrapErr().kind).toBe("QuotaExceeded");
+	});
+});
+
+describe("detectLanguage", () => {
+	it("returns the most confident language", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [
+					{ detectedLanguage: "de", confidence: 0.2 },
+					{ detectedLanguage: "fr", confidence: 0.7 },
+				],
+			},
+		});
+		const detector = await initDetector();
+
+		await expect(detector.detectLanguage("Bonjour")).resolves.toEqual({
+			determined: true,
+			language: "fr",
+			confidence: 0.7,
+		});
+	});
+
+	it("is undetermined below minConfidence, with the best guess", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [{ detectedLanguage: "fr", confidence: 0.7 }],
+			},
+		});
+		const detector = (await safeInitDetector())._unsafeUnwrap();
+
+		const guess = await detector.detectLanguage("Bonjour", {
+			minConfidence: 0.8,
+		});
+
+		expect(guess._unsafeUnwrap()).toEqual({
+			determined: false,
+			bestGuess: { language: "fr", confidence: 0.7 },
+		});
+	});
+
+	it("never reports und as a language", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [{ detectedLanguage: "und", confidence: 1 }],
+			},
+		});
+		const detector = await initDetector();
+
+		await expect(detector.detectLanguage("12345")).resolves.toEqual({
+			determined: false,
+		});
+	});
+
+	it("only considers allowed languages, by primary subtag", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [
+					{ detectedLanguage: "es", confidence: 0.6 },
+					{ detectedLanguage: "pt", confidence: 0.55 },
+				],
+			},
+		});
+		const detector = await initDetector();
+
+		await expect(
+			detector.detectLanguage("Obrigado", {
+				allowedLanguages: ["pt-BR", "en"],
+			}),
+		).resolves.toEqual({ determined: true, language: "pt", confidence: 0.55 });
+	});
+
+	it("defaults the allowed languages to expectedInputLanguages", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: [
+					{ detectedLanguage: "es", confidence: 0.6 },
+					{ detectedLanguage: "pt", confidence: 0.3 },
+				],
+			},
+		});
+		const detector = await initDetector({
+			expectedInputLanguages: ["pt", "en"],
+		});
+
+		await expect(detector.detectLanguage("Obrigado")).resolves.toEqual({
+			determined: false,
+			bestGuess: { language: "pt", confidence: 0.3 },
+		});
+	});
+});
+
+describe("detectSegments", () => {
+	const byLanguage = (input: string) => [
+		input.includes("Bonjour")
+			? { detectedLanguage: "fr", confidence: 0.9 }
+			: { detectedLanguage: "en", confidence: 0.8 },
+	];
+
+	it("detects each sentence with its offsets", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: { respond: byLanguage },
+		});
+		const detector = await initDetector();
+		const text = "Hello there. Bonjour à tous.  ";
+
+		const segments = await detector.detectSegments(text);
+
+		expect(segments).toEqual([
+			{
+				text: "Hello there.",
+				start: 0,
+				end: 12,
+				determined: true,
+				language: "en",
+				confidence: 0.8,
+			},
+			{
+				text: "Bonjour à tous.",
+				start: 13,
+				end: 28,
+				determined: true,
+				language: "fr",
+				confidence: 0.9,
+			},
+		]);
+		expect(segments.map(({ start, end }) => text.slice(start, end))).toEqual([
+			"Hello there.",
+			"Bonjour à tous.",
+		]);
+	});
+
+	it("detects per paragraph and honours expectedInputLanguages", async () => {
+		fakes = installChromiumAIFakes({
+			languageDetector: { respond: byLanguage },
+		});
+		const detector = (
+			await safeInitDetector({ expectedInputLanguages: ["en"] })
+		)._unsafeUnwrap();
+
+		const segments = await detector.detectSegments(
+			"Hello. Still English.\n\nBonjour. Encore.",
+			{ granularity: "paragraph" },
+		);
+
+		expect(segments._unsafeUnwrap()).toEqual([
+			{
+				text: "Hello. Still English.",
+				start: 0,
+				end: 21,
+				determined: true,
+				language: "en",
+				confidence: 0.8,
+			},
+			{
+				text: "Bonjour. Encore.",
+				start: 23,
+				end: 39,
+				determined: false,
+			},
+		]);
+	});
+});
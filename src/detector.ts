@@ -1,14 +1,15 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import * as Safe from "./detector-safe";
-import type { DetectorInstance } from "./types";
+import type { DetectorInitOptions, DetectorInstance } from "./types";
 import { okOrThrow } from "./utils";
 
 /**
  * Initializes the Language Detector API by checking availability and triggering model download.
- * Returns an instance object with `.detect()` and `.createSession()` methods.
+ * Returns an instance object with `.detect()`, `.detectMany()`, `.detectLanguage()`,
+ * `.detectSegments()` and `.createSession()` methods.
  *
- * @param options Optional options with expected input languages
+ * @param options Optional options with expected input languages (also the default allowed languages of `detectLanguage()`), progress, signal, timeout, retry policy and scheduler
  * @returns A DetectorInstance
  * @throws {Error} If initialization fails
  *
@@ -17,18 +18,27 @@ import { okOrThrow } from "./utils";
  * const detections = await detector.detect("Bonjour le monde");
  */
 export async function initDetector(
-	options?: LanguageDetectorCreateOptions,
+	options?: DetectorInitOptions,
 ): Promise<DetectorInstance> {
 	const safeInstance = await Safe.initDetector(options);
 	const safe = okOrThrow(safeInstance);
 
 	return {
-		detect: async (text, signal) => {
-			const result = await safe.detect(text, signal);
+		detect: async (text, signal, callOptions) => {
+			const result = await safe.detect(text, signal, callOptions);
 			return okOrThrow(result);
 		},
-		createSession: async (createOptions) => {
-			const result = await safe.createSession(createOptions);
+		detectMany: (texts, batchOptions) => safe.detectMany(texts, batchOptions),
+		detectLanguage: async (text, languageOptions) => {
+			const result = await safe.detectLanguage(text, languageOptions);
+			return okOrThrow(result);
+		},
+		detectSegments: async (text, segmentOptions) => {
+			const result = await safe.detectSegments(text, segmentOptions);
+			return okOrThrow(result);
+		},
+		createSession: async (createOptions, callOptions) => {
+			const result = await safe.createSession(createOptions, callOptions);
 			return okOrThrow(result);
 		},
 		destroy: () => safe.destroy(),
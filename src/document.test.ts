@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { restoreSpans, segmentDocument } from "./document";
+
+const translatable = (text: string, format: "plain" | "markdown") =>
+	segmentDocument(text, format).flatMap((part) =>
+		part.translate ? [part.source] : [],
+	);
+
+describe("segmentDocument", () => {
+	const markdown = [
+		"# Getting started",
+		"",
+		'Run `pnpm install` and read [the guide](https://example.com/guide "Guide").',
+		"",
+		"```ts",
+		'const greeting = "Hello";',
+		"```",
+		"",
+		"- [x] Done item",
+		"> Quoted <b>text</b>",
+		"",
+		"| Name | Value |",
+		"| --- | --- |",
+		"| Size | 42 |",
+		"",
+		"[guide]: https://example.com/guide",
+	].join("\n");
+
+	it("restores the input exactly when the parts are joined", () => {
+		for (const format of ["plain", "markdown"] as const) {
+			const parts = segmentDocument(markdown, format);
+			expect(parts.map((part) => part.text).join("")).toBe(markdown);
+		}
+	});
+
+	it("translates only prose in Markdown, with placeholders for protected spans", () => {
+		expect(translatable(markdown, "markdown")).toEqual([
+			"Getting started",
+			"Run ⟦0⟧ and read ⟦1⟧the guide⟦2⟧.",
+			"Done item",
+			"Quoted ⟦0⟧text⟦1⟧",
+			" Name ",
+			" Value ",
+			" Size ",
+		]);
+	});
+
+	it("keeps link syntax out of the translated text", () => {
+		const [part] = segmentDocument(
+			"See [the guide](https://a.example).",
+			"markdown",
+		);
+
+		expect(part?.translate && part.spans).toEqual([
+			"[",
+			"](https://a.example)",
+		]);
+	});
+
+	it("joins a wrapped paragraph into one part", () => {
+		const text =
+			"A sentence that\nwraps onto\n> more lines.\n\n> Quoted and\n> wrapped.";
+
+		expect(translatable(text, "markdown")).toEqual([
+			"A sentence that wraps onto",
+			"more lines.",
+			"Quoted and wrapped.",
+		]);
+	});
+
+	it("starts a new part for each list item and keeps hard breaks", () => {
+		const text = "- First item\n  continued\n- Second item  \nafter a break";
+
+		const parts = segmentDocument(text, "markdown").filter(
+			(part) => part.translate,
+		);
+
+		expect(parts.map((part) => part.translate && part.source)).toEqual([
+			"First item continued",
+			"Second item  ⟦0⟧after a break",
+		]);
+		expect(parts[1]?.translate && parts[1].spans).toEqual(["\n"]);
+	});
+
+	it("keeps a fence open until a matching closing fence", () => {
+		const text = "````\n```\nstill code\n````\nprose";
+
+		expect(translatable(text, "markdown")).toEqual(["prose"]);
+	});
+
+	it("splits plain text into paragraphs and keeps URLs", () => {
+		const text =
+			"First line\nsame paragraph.\n\nSee https://example.com/a?b=1 now.";
+
+		expect(translatable(text, "plain")).toEqual([
+			"First line\nsame paragraph.",
+			"See ⟦0⟧ now.",
+		]);
+	});
+});
+
+describe("restoreSpans", () => {
+	it("puts the spans back in the translated order", () => {
+		expect(
+			restoreSpans("Lisez ⟦1⟧le guide⟦2⟧ après ⟦0⟧.", ["`x`", "[", "](u)"]),
+		).toBe("Lisez [le guide](u) après `x`.");
+	});
+
+	it("appends spans whose placeholder was dropped", () => {
+		expect(restoreSpans("Exécutez la commande.", ["`npm test`"])).toBe(
+			"Exécutez la commande. `npm test`",
+		);
+	});
+});
@@ -0,0 +1,241 @@
+export type DocumentFormat = "plain" | "markdown";
+
+/**
+ * A run of document text. Parts with `translate: false` are copied to the
+ * output verbatim. For the others, `source` is sent to the translator: the
+ * part's text with each protected span (code, URLs, link syntax) replaced by
+ * a placeholder, which `restoreSpans()` swaps back after translation.
+ */
+export type DocumentPart =
+	| { text: string; translate: false }
+	| { text: string; translate: true; source: string; spans: string[] };
+
+/** A paragraph being collected, before it becomes a DocumentPart */
+interface Block {
+	text: string;
+	source: string;
+	spans: string[];
+}
+
+const URL_PATTERN = String.raw`https?://[^\s<>()\]]+`;
+
+const INLINE_PATTERNS: Record<DocumentFormat, RegExp> = {
+	plain: new RegExp(URL_PATTERN, "g"),
+	markdown: new RegExp(
+		[
+			// Inline code
+			"`+[^`\\n]*`+",
+			// The opening bracket of a link or image: [text](url) or [text][id]
+			String.raw`!?\[(?=[^\]\n]*\][([])`,
+			// Link and image targets, with an optional title: ](url "title")
+			String.raw`\]\([^)\s]*(?:\s+"[^"]*")?\)`,
+			// Reference-style link labels: ][id]
+			String.raw`\]\[[^\]]*\]`,
+			// Autolinks and inline HTML tags
+			"<[^>\\n]+>",
+			URL_PATTERN,
+		].join("|"),
+		"g",
+	),
+};
+
+/** Headings, list bullets, numbered items, task boxes and blockquote markers */
+const LINE_PREFIX =
+	/^(?:\s*(?:#{1,6}\s+|[-*+]\s+(?:\[[ xX]\]\s+)?|\d+[.)]\s+|>\s?))*/;
+/** A line starting a new block: a heading or a list item, possibly quoted */
+const BLOCK_START = /^(?:[ \t]*>[ \t]?)*[ \t]*(?:#{1,6}\s|[-*+]\s|\d+[.)]\s)/;
+/** Indentation and blockquote markers of a paragraph's continuation line */
+const CONTINUATION_PREFIX = /^(?:[ \t]*>[ \t]?)*[ \t]*/;
+const HEADING = /#\s/;
+/** Two trailing spaces or a backslash end a line with a hard break */
+const HARD_BREAK = /(?: {2,}|\\)$/;
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const REFERENCE_DEFINITION = /^\s{0,3}\[[^\]]+\]:\s*\S/;
+const TABLE_ROW = /^\s*\|/;
+const HAS_LETTERS = /\p{L}/u;
+const PLACEHOLDER = /⟦(\d+)⟧/g;
+
+function quoteDepth(prefix: string): number {
+	return prefix.split(">").length - 1;
+}
+
+function newBlock(): Block {
+	return { text: "", source: "", spans: [] };
+}
+
+/** Adds text sent to the translator as-is. */
+function addProse(block: Block, text: string): void {
+	block.text += text;
+	block.source += text;
+}
+
+/** Adds text the translator only sees as a placeholder. */
+function addProtected(block: Block, text: string): void {
+	block.text += text;
+	block.source += `⟦${block.spans.length}⟧`;
+	block.spans.push(text);
+}
+
+function addInline(block: Block, text: string, format: DocumentFormat): void {
+	let lastIndex = 0;
+	for (const match of text.matchAll(INLINE_PATTERNS[format])) {
+		addProse(block, text.slice(lastIndex, match.index));
+		addProtected(block, match[0]);
+		lastIndex = match.index + match[0].length;
+	}
+	addProse(block, text.slice(lastIndex));
+}
+
+function pushKept(parts: DocumentPart[], text: string): void {
+	if (text.length === 0) {
+		return;
+	}
+	const previous = parts[parts.length - 1];
+	if (previous && !previous.translate) {
+		previous.text += text;
+	} else {
+		parts.push({ text, translate: false });
+	}
+}
+
+function pushBlock(parts: DocumentPart[], block: Block): void {
+	// Placeholders contain no letters, so only prose counts here
+	if (HAS_LETTERS.test(block.source)) {
+		parts.push({ translate: true, ...block });
+	} else {
+		pushKept(parts, block.text);
+	}
+}
+
+/**
+ * Puts the protected spans back into a translation of `source`. A span whose
+ * placeholder the translator dropped is appended, so code and URLs are never
+ * lost.
+ */
+export function restoreSpans(translated: string, spans: string[]): string {
+	const missing = new Set(spans.keys());
+	const restored = translated.replace(PLACEHOLDER, (placeholder, index) => {
+		const span = spans[Number(index)];
+		if (span === undefined) {
+			return placeholder;
+		}
+		missing.delete(Number(index));
+		return span;
+	});
+	return [restored, ...[...missing].map((index) => spans[index])].join(" ");
+}
+
+/**
+ * Splits a document into parts to translate and parts to keep.
+ *
+ * Plain text is split into paragraphs, protecting URLs. Markdown is split
+ * into paragraphs, headings, list items and table cells; a paragraph wrapped
+ * over several lines is translated as one text. Code fences and their
+ * contents, reference definitions, table pipes and line prefixes such as `#`
+ * or `-` are kept, and inline code, link syntax and targets, URLs and HTML
+ * tags are protected inside the translated text. Parts without letters are
+ * never translated. Joining every part's text always restores the input
+ * exactly.
+ */
+export function segmentDocument(
+	text: string,
+	format: DocumentFormat,
+): DocumentPart[] {
+	const parts: DocumentPart[] = [];
+
+	if (format === "plain") {
+		for (const piece of text.split(/(\n\s*\n)/)) {
+			if (/^\n\s*\n$/.test(piece)) {
+				pushKept(parts, piece);
+			} else {
+				const block = newBlock();
+				addInline(block, piece, "plain");
+				pushBlock(parts, block);
+			}
+		}
+		return parts;
+	}
+
+	let openFence: string | null = null;
+	// The paragraph or list item the next line may continue
+	let block: Block | null = null;
+	let blockQuoteDepth = 0;
+	let previousLine = "";
+	const flush = () => {
+		if (block) {
+			pushBlock(parts, block);
+			block = null;
+		}
+	};
+
+	const pieces = text.split(/(\r?\n)/);
+	for (let index = 0; index < pieces.length; index += 2) {
+		const line = pieces[index] ?? "";
+		const newline = pieces[index - 1] ?? "";
+		const fence = FENCE.exec(line)?.[1];
+		const continuation = CONTINUATION_PREFIX.exec(line)?.[0] ?? "";
+
+		if (openFence !== null) {
+			// A fence closes with the same character, at least as long as the opener.
+			if (
+				fence &&
+				fence[0] === openFence[0] &&
+				fence.length >= openFence.length
+			) {
+				openFence = null;
+			}
+			pushKept(parts, `${newline}${line}`);
+		} else if (fence) {
+			flush();
+			openFence = fence;
+			pushKept(parts, `${newline}${line}`);
+		} else if (
+			!HAS_LETTERS.test(line) ||
+			REFERENCE_DEFINITION.test(line) ||
+			TABLE_ROW.test(line)
+		) {
+			flush();
+			pushKept(parts, newline);
+			if (TABLE_ROW.test(line)) {
+				for (const cell of line.split(/(\|)/)) {
+					if (cell === "|") {
+						pushKept(parts, cell);
+					} else {
+						const cellBlock = newBlock();
+						addInline(cellBlock, cell, "markdown");
+						pushBlock(parts, cellBlock);
+					}
+				}
+			} else {
+				pushKept(parts, line);
+			}
+		} else if (
+			block &&
+			!BLOCK_START.test(line) &&
+			quoteDepth(continuation) === blockQuoteDepth
+		) {
+			// A soft line break reads as a space; a hard one must survive
+			if (HARD_BREAK.test(previousLine)) {
+				addProtected(block, `${newline}${continuation}`);
+			} else {
+				block.text += `${newline}${continuation}`;
+				block.source += " ";
+			}
+			addInline(block, line.slice(continuation.length), "markdown");
+		} else {
+			flush();
+			pushKept(parts, newline);
+			const prefix = LINE_PREFIX.exec(line)?.[0] ?? "";
+			pushKept(parts, prefix);
+			block = newBlock();
+			blockQuoteDepth = quoteDepth(prefix);
+			addInline(block, line.slice(prefix.length), "markdown");
+			if (HEADING.test(prefix)) {
+				flush();
+			}
+		}
+		previousLine = line;
+	}
+	flush();
+	return parts;
+}
@@ -0,0 +1,201 @@
+import { match } from "ts-pattern";
+
+export type ChromiumAIErrorKind =
+	| "ApiNotPresent"
+	| "ModelUnavailable"
+	| "DownloadFailed"
+	| "Timeout"
+	| "Aborted"
+	| "QuotaExceeded"
+	| "InvalidInput"
+	| "SessionCreateFailed"
+	| "OperationFailed"
+	| "StructuredOutput"
+	| "ContextOverflow";
+
+export interface ChromiumAIErrorDetails {
+	/** The wrapped API that failed, e.g. "Translator" */
+	api?: string;
+	/** The original error thrown by the native API, if any */
+	cause?: unknown;
+}
+
+/**
+ * Base class of every error returned by this library.
+ * Narrow on `kind` to handle each case, e.g. with ts-pattern's `.exhaustive()`.
+ */
+export abstract class ChromiumAIErrorBase extends Error {
+	abstract readonly kind: ChromiumAIErrorKind;
+	readonly api: string | undefined;
+
+	constructor(message: string, details?: ChromiumAIErrorDetails) {
+		super(message);
+		// Set by hand: the `cause` option of the Error constructor needs ES2022
+		if (details?.cause !== undefined) {
+			Object.defineProperty(this, "cause", {
+				value: details.cause,
+				writable: true,
+				configurable: true,
+			});
+		}
+		this.api = details?.api;
+	}
+}
+
+/** The API's global does not exist in this browser. */
+export class ApiNotPresentError extends ChromiumAIErrorBase {
+	override readonly kind = "ApiNotPresent";
+	override readonly name = "ApiNotPresentError";
+}
+
+/** The API exists but the model cannot run on this device. */
+export class ModelUnavailableError extends ChromiumAIErrorBase {
+	override readonly kind = "ModelUnavailable";
+	override readonly name = "ModelUnavailableError";
+}
+
+/** The model download failed during initialization. */
+export class DownloadFailedError extends ChromiumAIErrorBase {
+	override readonly kind = "DownloadFailed";
+	override readonly name = "DownloadFailedError";
+}
+
+/** The operation was cancelled because its timeout elapsed. */
+export class TimeoutError extends ChromiumAIErrorBase {
+	override readonly kind = "Timeout";
+	override readonly name = "TimeoutError";
+}
+
+/** The operation was cancelled through an AbortSignal. */
+export class AbortedError extends ChromiumAIErrorBase {
+	override readonly kind = "Aborted";
+	override readonly name = "AbortedError";
+}
+
+/** The input does not fit in the model's context window or input quota. */
+export class QuotaExceededError extends ChromiumAIErrorBase {
+	override readonly kind = "QuotaExceeded";
+	override readonly name = "QuotaExceededError";
+}
+
+/** The input or options were rejected by the native API. */
+export class InvalidInputError extends ChromiumAIErrorBase {
+	override readonly kind = "InvalidInput";
+	override readonly name = "InvalidInputError";
+}
+
+/** A session could not be created after the model was ready. */
+export class SessionCreateFailedError extends ChromiumAIErrorBase {
+	override readonly kind = "SessionCreateFailed";
+	override readonly name = "SessionCreateFailedError";
+}
+
+/** A native call failed for a reason not covered by a more specific kind. */
+export class OperationFailedError extends ChromiumAIErrorBase {
+	override readonly kind = "OperationFailed";
+	override readonly name = "OperationFailedError";
+}
+
+/**
+ * Returned by `promptJson()` when every attempt produced a response that
+ * could not be parsed as JSON or did not match the schema.
+ */
+export class StructuredOutputError extends ChromiumAIErrorBase {
+	override readonly kind = "StructuredOutput";
+	override readonly name = "StructuredOutputError";
+	/** Total number of prompts sent, including repair attempts */
+	readonly attempts: number;
+	/** The raw text of the last model response */
+	readonly lastResponse: string;
+	/** Parse or validation issues found in the last response */
+	readonly issues: string[];
+
+	constructor(attempts: number, lastResponse: string, issues: string[]) {
+		super(
+			`Model response did not match the schema after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${issues.join("; ")}`,
+			{ api: "LanguageModel" },
+		);
+		this.attempts = attempts;
+		this.lastResponse = lastResponse;
+		this.issues = issues;
+	}
+}
+
+/**
+ * Returned by a conversation managed with the "error" strategy (or when
+ * compaction could not free enough room) instead of letting the session
+ * silently drop context.
+ */
+export class ContextOverflowError extends ChromiumAIErrorBase {
+	override readonly kind = "ContextOverflow";
+	override readonly name = "ContextOverflowError";
+	/** Tokens the next prompt would add */
+	readonly promptTokens: number;
+	/** Tokens already used by the session */
+	readonly contextUsage: number;
+	readonly contextWindow: number;
+
+	constructor(
+		promptTokens: number,
+		contextUsage: number,
+		contextWindow: number,
+	) {
+		super(
+			`Prompt needs ${promptTokens} tokens but the context window has ${contextWindow - contextUsage} of ${contextWindow} left`,
+			{ api: "LanguageModel" },
+		);
+		this.promptTokens = promptTokens;
+		this.contextUsage = contextUsage;
+		this.contextWindow = contextWindow;
+	}
+}
+
+export type ChromiumAIError =
+	| ApiNotPresentError
+	| ModelUnavailableError
+	| DownloadFailedError
+	| TimeoutError
+	| AbortedError
+	| QuotaExceededError
+	| InvalidInputError
+	| SessionCreateFailedError
+	| OperationFailedError
+	| StructuredOutputError
+	| ContextOverflowError;
+
+export function isChromiumAIError(error: unknown): error is ChromiumAIError {
+	return error instanceof ChromiumAIErrorBase;
+}
+
+/**
+ * Classifies an error thrown by a native API using its DOMException name.
+ * Errors that are already ChromiumAIErrors pass through unchanged; anything
+ * unrecognized is built by `fallback` from the original message.
+ */
+export function toChromiumAIError(
+	error: unknown,
+	api: string,
+	fallback: (
+		message: string,
+		details: ChromiumAIErrorDetails,
+	) => ChromiumAIError,
+): ChromiumAIError {
+	if (isChromiumAIError(error)) {
+		return error;
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	const details: ChromiumAIErrorDetails = { api, cause: error };
+
+	return match(error instanceof Error ? error.name : undefined)
+		.with("AbortError", () => new AbortedError(message, details))
+		.with("TimeoutError", () => new TimeoutError(message, details))
+		.with("QuotaExceededError", () => new QuotaExceededError(message, details))
+		.with(
+			"NotSupportedError",
+			"SyntaxError",
+			"DataError",
+			() => new InvalidInputError(message, details),
+		)
+		.otherwise(() => fallback(message, details));
+}
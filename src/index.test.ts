@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import ChromiumAI, {
+	ApiNotPresentError,
+	initLanguageModel,
+	TimeoutError,
+} from "./index";
+import { installChromiumAIFakes } from "./testing";
+
+describe("initLanguageModel (throwing)", () => {
+	it("throws the ChromiumAIError from the safe variant", async () => {
+		const fakes = installChromiumAIFakes({ languageModel: false });
+
+		await expect(initLanguageModel()).rejects.toBeInstanceOf(
+			ApiNotPresentError,
+		);
+
+		fakes.uninstall();
+	});
+
+	it("unwraps prompt results", async () => {
+		const fakes = installChromiumAIFakes({ languageModel: { respond: "Hi" } });
+		const ai = await initLanguageModel();
+
+		await expect(ai.prompt("Hello")).resolves.toBe("Hi");
+		await expect(
+			ai.withSession((session) => session.prompt("Hello")),
+		).resolves.toBe("Hi");
+
+		fakes.uninstall();
+	});
+
+	it("throws on timeout", async () => {
+		const fakes = installChromiumAIFakes({ languageModel: { latency: 50 } });
+		const ai = await initLanguageModel();
+
+		await expect(ai.prompt("Hello", 5)).rejects.toBeInstanceOf(TimeoutError);
+
+		fakes.uninstall();
+	});
+
+	it("streams plain chunks and throws a stream failure", async () => {
+		const fakes = installChromiumAIFakes({
+			languageModel: { respond: "a b" },
+		});
+		const ai = await initLanguageModel();
+
+		const chunks: string[] = [];
+		for await (const chunk of ai.promptStreaming("Hello")) {
+			chunks.push(chunk);
+		}
+		expect(chunks).toEqual(["a ", "b"]);
+
+		fakes.languageModel.respond = () => {
+			throw new DOMException("Too long", "QuotaExceededError");
+		};
+		const consume = async () => {
+			for await (const _chunk of ai.promptStreaming("Hello")) {
+				// drain
+			}
+		};
+		await expect(consume()).rejects.toMatchObject({ kind: "QuotaExceeded" });
+
+		fakes.uninstall();
+	});
+});
+
+describe("ChromiumAI default export", () => {
+	it("exposes every function in both variants", () => {
+		const apis = [
+			"initLanguageModel",
+			"initTranslator",
+			"initDetector",
+			"initSummarizer",
+			"initWriter",
+			"initRewriter",
+			"initProofreader",
+			"initTranslationHub",
+			"getCapabilities",
+		];
+
+		expect(Object.keys(ChromiumAI.Safe)).toEqual(apis);
+		expect(Object.keys(ChromiumAI).filter((key) => key !== "Safe")).toEqual(
+			apis,
+		);
+	});
+});
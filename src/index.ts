@@ -1,47 +1,187 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import { ResultAsync } from "neverthrow";
+import { getCapabilities } from "./capabilities";
+import { toConversation } from "./conversation";
 import { initDetector as _initDetector } from "./detector";
 import { initDetector as _safeInitDetector } from "./detector-safe";
+import type { JsonSchema } from "./json-schema";
+import { initProofreader as _initProofreader } from "./proofreader";
+import { initProofreader as _safeInitProofreader } from "./proofreader-safe";
+import { initRewriter as _initRewriter } from "./rewriter";
+import { initRewriter as _safeInitRewriter } from "./rewriter-safe";
 import { initLanguageModel as _safeInitLanguageModel } from "./safe";
 import { initSummarizer as _initSummarizer } from "./summarizer";
 import { initSummarizer as _safeInitSummarizer } from "./summarizer-safe";
+import { initTranslationHub as _initTranslationHub } from "./translation-hub";
+import { initTranslationHub as _safeInitTranslationHub } from "./translation-hub-safe";
 import { initTranslator as _initTranslator } from "./translator";
 import { initTranslator as _safeInitTranslator } from "./translator-safe";
-import type { LanguageModelInitOptions, LanguageModelInstance } from "./types";
-import { okOrThrow } from "./utils";
+import type {
+	LanguageModelInitOptions,
+	LanguageModelInstance,
+	PromptJsonOptions,
+} from "./types";
+import { okOrThrow, okOrThrowIterable } from "./utils";
+import { initWriter as _initWriter } from "./writer";
+import { initWriter as _safeInitWriter } from "./writer-safe";
 
 // Re-export Result types for users who want them
 export { err, ok, Result, ResultAsync } from "neverthrow";
+export type { BatchOptions, BatchProgress, BatchResult } from "./batch";
+export type {
+	BridgeClient,
+	BridgeHost,
+	BridgeHostInstances,
+	BridgePort,
+	RemoteDetectorInstance,
+	RemoteLanguageModelInstance,
+	RemoteSummarizerInstance,
+	RemoteTranslatorInstance,
+} from "./bridge";
+export {
+	BRIDGE_PORT_NAME,
+	createBridgeClient,
+	createBridgeHost,
+} from "./bridge";
+export type {
+	CacheCallOptions,
+	CacheEntry,
+	CacheMode,
+	CacheStore,
+	ResponseCacheOptions,
+} from "./cache";
+export { createMemoryCacheStore } from "./cache";
+export { getCapabilities } from "./capabilities";
+export type { DocumentFormat } from "./document";
+// Re-export error classes and helpers
+export type {
+	ChromiumAIError,
+	ChromiumAIErrorDetails,
+	ChromiumAIErrorKind,
+} from "./errors";
+export {
+	AbortedError,
+	ApiNotPresentError,
+	ChromiumAIErrorBase,
+	ContextOverflowError,
+	DownloadFailedError,
+	InvalidInputError,
+	isChromiumAIError,
+	ModelUnavailableError,
+	OperationFailedError,
+	QuotaExceededError,
+	SessionCreateFailedError,
+	StructuredOutputError,
+	TimeoutError,
+} from "./errors";
+export type { JsonSchema, JsonSchemaType } from "./json-schema";
+export { validateJsonSchema } from "./json-schema";
+export type { PromptMediaPart } from "./media";
+export { createProgressAggregator } from "./progress";
+export { applyCorrections } from "./proofreader-safe";
+export type { RetryCallOptions, RetryPolicy } from "./retry";
+export type {
+	ScheduleCallOptions,
+	ScheduleOptions,
+	Scheduler,
+	SchedulerOptions,
+	SchedulerPriority,
+	SchedulerState,
+} from "./scheduler";
+export { createScheduler } from "./scheduler";
+export type {
+	CompiledPrompt,
+	PromptExample,
+	PromptTemplate,
+	PromptTemplateDefinition,
+	TemplateValues,
+	TemplateVariables,
+} from "./template";
+export { createPromptTemplate } from "./template";
 
 // Re-export types
 export type {
+	ApiCapability,
+	CapabilityOptions,
+	CapabilityReport,
+	ContextCompactionEvent,
+	ContextManagementOptions,
+	ContextStrategy,
+	Conversation,
+	ConversationMessage,
+	ConversationOptions,
+	ConversationSnapshot,
+	DetectLanguageOptions,
+	DetectorInitOptions,
 	DetectorInstance,
 	DetectResult,
+	DetectSegmentsOptions,
+	HubTranslation,
+	InitOptions,
+	InitProgressCallback,
+	LanguageGuess,
 	LanguageModelInitOptions,
 	LanguageModelInstance,
+	LanguagePairCapability,
+	LanguageSegment,
+	ModalityCapability,
+	PromptJsonOptions,
+	PromptManyOptions,
 	PromptResult,
+	PromptStreamResult,
+	ProofreaderInstance,
+	ProofreadingCorrection,
+	ProofreadingResult,
+	RewriteResult,
+	RewriterInstance,
+	RewriteStreamResult,
+	RunWithToolsOptions,
+	SafeConversation,
 	SafeDetectorInstance,
 	SafeLanguageModelInstance,
+	SafeProofreaderInstance,
+	SafeRewriterInstance,
 	SafeSummarizerInstance,
+	SafeTranslationHub,
 	SafeTranslatorInstance,
+	SafeWriterInstance,
+	SessionPoolOptions,
+	SummarizeLongOptions,
+	SummarizeLongProgress,
 	SummarizeResult,
+	SummarizerInitOptions,
 	SummarizerInstance,
+	SummarizeStreamResult,
 	TokenUsageInfo,
+	Tool,
+	ToolCallContext,
+	ToolCallRecord,
+	ToolRunResult,
+	TranslateDocumentOptions,
 	TranslateResult,
+	TranslateStreamResult,
+	TranslationHub,
+	TranslationHubOptions,
+	TranslatorInitOptions,
 	TranslatorInstance,
+	WriteResult,
+	WriterInstance,
+	WriteStreamResult,
 } from "./types";
 
 // --- Throwing init exports ---
 
 /**
  * Initializes the LanguageModel API. Triggers model download and returns an instance
- * with `.prompt()`, `.createSession()`, `.withSession()`, `.checkTokenUsage()` methods.
+ * with `.prompt()`, `.promptWithMedia()`, `.promptStreaming()`, `.promptMany()`,
+ * `.promptJson()`, `.runWithTools()`, `.createSession()`, `.createConversation()`, `.restoreConversation()`,
+ * `.withSession()`, `.checkTokenUsage()` methods, plus `.dispose()`.
  *
  * Init is only about capability (can the model run?), not behavior (what should it say?).
  * Pass system prompts via `createSession()` or the `sessionOptions` parameter on `.prompt()`.
  *
- * @param options Optional init options (expectedInputs, expectedOutputs, monitor, signal)
+ * @param options Optional init options (expectedInputs, expectedOutputs, monitor, onProgress, signal, timeout, sessionPool, cache, retry, scheduler)
  * @throws {Error} If initialization fails
  *
  * @example
@@ -66,37 +206,81 @@ export async function initLanguageModel(
 			);
 			return okOrThrow(result);
 		},
-		createSession: async (options) => {
-			const result = await safe.createSession(options);
+		promptWithMedia: async (parts, timeout, promptOptions, sessionOptions) => {
+			const result = await safe.promptWithMedia(
+				parts,
+				timeout,
+				promptOptions,
+				sessionOptions,
+			);
+			return okOrThrow(result);
+		},
+		promptStreaming: (text, timeout, promptOptions, sessionOptions) =>
+			okOrThrowIterable(
+				safe.promptStreaming(text, timeout, promptOptions, sessionOptions),
+			),
+		promptMany: (texts, options) => safe.promptMany(texts, options),
+		promptJson: async <T>(
+			text: string,
+			schema: JsonSchema,
+			options?: PromptJsonOptions,
+		) => {
+			const result = await safe.promptJson<T>(text, schema, options);
+			return okOrThrow(result);
+		},
+		runWithTools: async (text, tools, options) => {
+			const result = await safe.runWithTools(text, tools, options);
+			return okOrThrow(result);
+		},
+		createSession: async (options, callOptions) => {
+			const result = await safe.createSession(options, callOptions);
 			return okOrThrow(result);
 		},
-		withSession: async (callback, options) => {
+		createConversation: (options) =>
+			toConversation(safe.createConversation(options)),
+		restoreConversation: (snapshot, options) =>
+			toConversation(okOrThrow(safe.restoreConversation(snapshot, options))),
+		withSession: async (callback, options, callOptions) => {
 			const result = await safe.withSession(
 				(session) =>
 					ResultAsync.fromPromise(callback(session), (error) =>
 						error instanceof Error ? error : new Error(String(error)),
 					),
 				options,
+				callOptions,
 			);
 			return okOrThrow(result);
 		},
-		checkTokenUsage: async (promptText, sessionOptions) => {
-			const result = await safe.checkTokenUsage(promptText, sessionOptions);
+		checkTokenUsage: async (promptText, sessionOptions, callOptions) => {
+			const result = await safe.checkTokenUsage(
+				promptText,
+				sessionOptions,
+				callOptions,
+			);
 			return okOrThrow(result);
 		},
+		dispose: () => safe.dispose(),
 	};
 }
 
 export { initDetector } from "./detector";
+export { initProofreader } from "./proofreader";
+export { initRewriter } from "./rewriter";
 export { initSummarizer } from "./summarizer";
+export { initTranslationHub } from "./translation-hub";
 export { initTranslator } from "./translator";
+export { initWriter } from "./writer";
 
 // --- Safe init exports ---
 
 export { initDetector as safeInitDetector } from "./detector-safe";
+export { initProofreader as safeInitProofreader } from "./proofreader-safe";
+export { initRewriter as safeInitRewriter } from "./rewriter-safe";
 export { initLanguageModel as safeInitLanguageModel } from "./safe";
 export { initSummarizer as safeInitSummarizer } from "./summarizer-safe";
+export { initTranslationHub as safeInitTranslationHub } from "./translation-hub-safe";
 export { initTranslator as safeInitTranslator } from "./translator-safe";
+export { initWriter as safeInitWriter } from "./writer-safe";
 
 /**
  * ChromiumAI namespace containing all SDK init functions.
@@ -130,6 +314,12 @@ const ChromiumAI = {
 		initTranslator: _safeInitTranslator,
 		initDetector: _safeInitDetector,
 		initSummarizer: _safeInitSummarizer,
+		initWriter: _safeInitWriter,
+		initRewriter: _safeInitRewriter,
+		initProofreader: _safeInitProofreader,
+		initTranslationHub: _safeInitTranslationHub,
+		// Never rejects, so both namespaces share it
+		getCapabilities,
 	},
 
 	// Default API (throws errors)
@@ -137,6 +327,11 @@ const ChromiumAI = {
 	initTranslator: _initTranslator,
 	initDetector: _initDetector,
 	initSummarizer: _initSummarizer,
+	initWriter: _initWriter,
+	initRewriter: _initRewriter,
+	initProofreader: _initProofreader,
+	initTranslationHub: _initTranslationHub,
+	getCapabilities,
 };
 
 // Default export for convenience
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { validateJsonSchema } from "./json-schema";
+
+describe("validateJsonSchema", () => {
+	const schema = {
+		type: "object" as const,
+		properties: {
+			sentiment: { type: "string" as const, enum: ["positive", "negative"] },
+			confidence: { type: "number" as const, minimum: 0, maximum: 1 },
+			tags: { type: "array" as const, items: { type: "string" as const } },
+		},
+		required: ["sentiment"],
+		additionalProperties: false,
+	};
+
+	it("accepts a matching value", () => {
+		expect(
+			validateJsonSchema(
+				{ sentiment: "positive", confidence: 1, tags: ["a"] },
+				schema,
+			),
+		).toEqual([]);
+	});
+
+	it("reports every issue with its path", () => {
+		expect(
+			validateJsonSchema(
+				{ confidence: 2, tags: ["a", 3], extra: true },
+				schema,
+			),
+		).toEqual([
+			'$: missing required property "sentiment"',
+			"$.confidence: greater than maximum 1",
+			"$.tags[1]: expected string, got integer",
+			'$: unexpected property "extra"',
+		]);
+	});
+
+	it("treats integers as numbers but not the reverse", () => {
+		expect(validateJsonSchema(3, { type: "number" })).toEqual([]);
+		expect(validateJsonSchema(3.5, { type: "integer" })).toEqual([
+			"$: expected integer, got number",
+		]);
+	});
+});
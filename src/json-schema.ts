@@ -0,0 +1,175 @@
+export type JsonSchemaType =
+	| "string"
+	| "number"
+	| "integer"
+	| "boolean"
+	| "object"
+	| "array"
+	| "null";
+
+/**
+ * The subset of JSON Schema that is both accepted by `responseConstraint`
+ * and checked by `validateJsonSchema`. Unknown keywords are passed through
+ * to the model but ignored during validation.
+ */
+export interface JsonSchema {
+	type?: JsonSchemaType | JsonSchemaType[];
+	enum?: readonly unknown[];
+	const?: unknown;
+	properties?: Record<string, JsonSchema>;
+	required?: readonly string[];
+	additionalProperties?: boolean | JsonSchema;
+	items?: JsonSchema;
+	minItems?: number;
+	maxItems?: number;
+	minLength?: number;
+	maxLength?: number;
+	pattern?: string;
+	minimum?: number;
+	maximum?: number;
+	anyOf?: JsonSchema[];
+	[keyword: string]: unknown;
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+	if (value === null) return "null";
+	if (Array.isArray(value)) return "array";
+	if (typeof value === "number") {
+		return Number.isInteger(value) ? "integer" : "number";
+	}
+	return typeof value as JsonSchemaType;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+	const actual = typeOf(value);
+	// Every integer is also a valid JSON Schema "number"
+	return actual === type || (type === "number" && actual === "integer");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return typeOf(value) === "object";
+}
+
+/**
+ * Validates a parsed JSON value against a schema.
+ *
+ * @returns A list of human-readable issues, empty when the value is valid
+ *
+ * @example
+ * validateJsonSchema({ age: "ten" }, {
+ *   type: "object",
+ *   properties: { age: { type: "number" } },
+ * });
+ * // ["$.age: expected number, got string"]
+ */
+export function validateJsonSchema(
+	value: unknown,
+	schema: JsonSchema,
+	path = "$",
+): string[] {
+	const issues: string[] = [];
+
+	if (schema.type !== undefined) {
+		const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+		if (!types.some((type) => matchesType(value, type))) {
+			issues.push(
+				`${path}: expected ${types.join(" | ")}, got ${typeOf(value)}`,
+			);
+			return issues;
+		}
+	}
+
+	if (schema.enum && !schema.enum.includes(value)) {
+		issues.push(
+			`${path}: expected one of ${schema.enum.map((v) => JSON.stringify(v)).join(", ")}`,
+		);
+	}
+
+	if ("const" in schema && value !== schema.const) {
+		issues.push(`${path}: expected ${JSON.stringify(schema.const)}`);
+	}
+
+	if (schema.anyOf) {
+		const matchesAny = schema.anyOf.some(
+			(option) => validateJsonSchema(value, option, path).length === 0,
+		);
+		if (!matchesAny) {
+			issues.push(`${path}: does not match any allowed schema`);
+		}
+	}
+
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			issues.push(`${path}: shorter than ${schema.minLength} characters`);
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			issues.push(`${path}: longer than ${schema.maxLength} characters`);
+		}
+		if (
+			schema.pattern !== undefined &&
+			!new RegExp(schema.pattern).test(value)
+		) {
+			issues.push(`${path}: does not match pattern ${schema.pattern}`);
+		}
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			issues.push(`${path}: less than minimum ${schema.minimum}`);
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			issues.push(`${path}: greater than maximum ${schema.maximum}`);
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			issues.push(`${path}: fewer than ${schema.minItems} items`);
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			issues.push(`${path}: more than ${schema.maxItems} items`);
+		}
+		if (schema.items) {
+			const itemSchema = schema.items;
+			value.forEach((item, index) => {
+				issues.push(
+					...validateJsonSchema(item, itemSchema, `${path}[${index}]`),
+				);
+			});
+		}
+	}
+
+	if (isPlainObject(value)) {
+		for (const key of schema.required ?? []) {
+			if (!(key in value)) {
+				issues.push(`${path}: missing required property "${key}"`);
+			}
+		}
+
+		const properties = schema.properties ?? {};
+		for (const [key, propertyValue] of Object.entries(value)) {
+			const propertySchema = properties[key];
+			if (propertySchema) {
+				issues.push(
+					...validateJsonSchema(
+						propertyValue,
+						propertySchema,
+						`${path}.${key}`,
+					),
+				);
+			} else if (schema.additionalProperties === false) {
+				issues.push(`${path}: unexpected property "${key}"`);
+			} else if (typeof schema.additionalProperties === "object") {
+				issues.push(
+					...validateJsonSchema(
+						propertyValue,
+						schema.additionalProperties,
+						`${path}.${key}`,
+					),
+				);
+			}
+		}
+	}
+
+	return issues;
+}
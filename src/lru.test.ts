@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createLru } from "./lru";
+
+describe("createLru", () => {
+	it("evicts the least recently used entry over the limit", () => {
+		const evicted: string[] = [];
+		const lru = createLru<string, number>(2, (_value, key) =>
+			evicted.push(key),
+		);
+
+		lru.set("a", 1);
+		lru.set("b", 2);
+		lru.get("a");
+		lru.set("c", 3);
+
+		expect(evicted).toEqual(["b"]);
+		expect(lru.get("b")).toBeUndefined();
+		expect(lru.size).toBe(2);
+	});
+
+	it("peeks without changing the eviction order", () => {
+		const lru = createLru<string, number>(2);
+		lru.set("a", 1);
+		lru.set("b", 2);
+
+		expect(lru.peek("a")).toBe(1);
+		lru.set("c", 3);
+
+		expect(lru.peek("a")).toBeUndefined();
+		expect(lru.peek("b")).toBe(2);
+	});
+
+	it("does not call onEvict for delete but does for clear", () => {
+		const evicted: string[] = [];
+		const lru = createLru<string, number>(3, (_value, key) =>
+			evicted.push(key),
+		);
+		lru.set("a", 1);
+		lru.set("b", 2);
+
+		lru.delete("a");
+		lru.clear();
+
+		expect(evicted).toEqual(["b"]);
+		expect(lru.size).toBe(0);
+	});
+});
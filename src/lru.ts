@@ -0,0 +1,61 @@
+export interface Lru<K, V> {
+	/** Returns the value and marks it as most recently used */
+	get(key: K): V | undefined;
+	/** Returns the value without marking it as used */
+	peek(key: K): V | undefined;
+	/** Inserts or replaces the value, evicting the least recently used entries over `maxSize` */
+	set(key: K, value: V): void;
+	/** Removes the value without calling `onEvict` */
+	delete(key: K): boolean;
+	/** Evicts every entry */
+	clear(): void;
+	readonly size: number;
+}
+
+/**
+ * A least-recently-used map. `onEvict` is called for entries pushed out by
+ * `set()` and for every entry on `clear()`, so owned resources can be
+ * destroyed there.
+ */
+export function createLru<K, V>(
+	maxSize: number,
+	onEvict?: (value: V, key: K) => void,
+): Lru<K, V> {
+	// Map iteration order doubles as recency order: entries are re-inserted on use.
+	const entries = new Map<K, V>();
+
+	return {
+		get: (key) => {
+			if (!entries.has(key)) {
+				return undefined;
+			}
+			const value = entries.get(key) as V;
+			entries.delete(key);
+			entries.set(key, value);
+			return value;
+		},
+		peek: (key) => entries.get(key),
+		set: (key, value) => {
+			entries.delete(key);
+			entries.set(key, value);
+			for (const [oldestKey, oldestValue] of entries) {
+				if (entries.size <= Math.max(maxSize, 0)) {
+					break;
+				}
+				entries.delete(oldestKey);
+				onEvict?.(oldestValue, oldestKey);
+			}
+		},
+		delete: (key) => entries.delete(key),
+		clear: () => {
+			const evicted = [...entries];
+			entries.clear();
+			for (const [key, value] of evicted) {
+				onEvict?.(value, key);
+			}
+		},
+		get size() {
+			return entries.size;
+		},
+	};
+}
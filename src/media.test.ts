@@ -0,0 +1,133 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { initLanguageModel as initThrowingLanguageModel } from "./index";
+import { initLanguageModel } from "./safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+	vi.unstubAllGlobals();
+});
+
+const imageAndAudio: LanguageModelExpected[] = [
+	{ type: "text" },
+	{ type: "image" },
+	{ type: "audio" },
+];
+
+describe("promptWithMedia", () => {
+	it("sends text and media as one user message", async () => {
+		const inputs: LanguageModelPrompt[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					inputs.push(input);
+					return "A cat";
+				},
+			},
+		});
+		const ai = (
+			await initLanguageModel({ expectedInputs: imageAndAudio })
+		)._unsafeUnwrap();
+		const photo = new Blob(["png"], { type: "image/png" });
+		const recording = new Blob(["ogg"], { type: "audio/ogg" });
+
+		const result = await ai.promptWithMedia([
+			"What is in this photo and recording?",
+			photo,
+			recording,
+		]);
+
+		expect(result._unsafeUnwrap()).toBe("A cat");
+		expect(inputs[0]).toEqual([
+			{
+				role: "user",
+				content: [
+					{ type: "text", value: "What is in this photo and recording?" },
+					{ type: "image", value: photo },
+					{ type: "audio", value: recording },
+				],
+			},
+		]);
+	});
+
+	it("recognizes ImageBitmap, HTMLCanvasElement and AudioBuffer parts", async () => {
+		class ImageBitmap {}
+		class HTMLCanvasElement {}
+		class AudioBuffer {}
+		vi.stubGlobal("ImageBitmap", ImageBitmap);
+		vi.stubGlobal("HTMLCanvasElement", HTMLCanvasElement);
+		vi.stubGlobal("AudioBuffer", AudioBuffer);
+		const inputs: LanguageModelPrompt[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					inputs.push(input);
+					return "ok";
+				},
+			},
+		});
+		const ai = (
+			await initLanguageModel({ expectedInputs: imageAndAudio })
+		)._unsafeUnwrap();
+
+		await ai.promptWithMedia([
+			new ImageBitmap() as globalThis.ImageBitmap,
+			new HTMLCanvasElement() as globalThis.HTMLCanvasElement,
+			new AudioBuffer() as globalThis.AudioBuffer,
+		]);
+
+		const [message] = inputs[0] as LanguageModelMessage[];
+		expect(
+			(message?.content as LanguageModelMessageContent[]).map(
+				({ type }) => type,
+			),
+		).toEqual(["image", "image", "audio"]);
+	});
+
+	it("fails clearly when the instance was not initialized for the media type", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const error = (
+			await ai.promptWithMedia([
+				"Describe this",
+				new Blob(["png"], { type: "image/png" }),
+			])
+		)._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("InvalidInput");
+		expect(error.message).toBe(
+			'The prompt contains image input, but the model was not initialized for it. Add { type: "image" } to expectedInputs when calling initLanguageModel().',
+		);
+		expect(fakes.languageModel.sessions).toHaveLength(0);
+	});
+
+	it("checks the session's expectedInputs when they override the instance's", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.promptWithMedia(
+			[new Blob(["wav"], { type: "audio/wav" })],
+			undefined,
+			undefined,
+			{ expectedInputs: [{ type: "audio" }] },
+		);
+
+		expect(result.isOk()).toBe(true);
+	});
+
+	it("rejects Blobs that are neither images nor audio", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initThrowingLanguageModel({
+			expectedInputs: imageAndAudio,
+		});
+
+		await expect(
+			ai.promptWithMedia([new Blob(["{}"], { type: "application/json" })]),
+		).rejects.toThrow(
+			'Prompt part 0 is a Blob of type "application/json"; only image/* and audio/* Blobs are supported',
+		);
+	});
+});
@@ -0,0 +1,108 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { err, ok, type Result } from "neverthrow";
+import { type ChromiumAIError, InvalidInputError } from "./errors";
+
+/**
+ * One part of a multimodal prompt. Strings are sent as text, `ImageBitmap`
+ * and `HTMLCanvasElement` as images, `AudioBuffer` as audio. A `Blob` is an
+ * image or audio depending on its MIME type.
+ */
+export type PromptMediaPart =
+	| string
+	| Blob
+	| ImageBitmap
+	| HTMLCanvasElement
+	| AudioBuffer;
+
+/** Whether `value` is an instance of the global `name`, if that global exists. */
+function isInstanceOf(value: unknown, name: string): boolean {
+	const global = (globalThis as Record<string, unknown>)[name];
+	return typeof global === "function" && value instanceof global;
+}
+
+function toMessageContent(
+	part: PromptMediaPart,
+	index: number,
+): Result<LanguageModelMessageContent, ChromiumAIError> {
+	if (typeof part === "string") {
+		return ok({ type: "text", value: part });
+	}
+	if (isInstanceOf(part, "Blob")) {
+		const { type } = part as Blob;
+		if (type.startsWith("image/")) {
+			return ok({ type: "image", value: part as Blob });
+		}
+		if (type.startsWith("audio/")) {
+			return ok({ type: "audio", value: part as Blob });
+		}
+		return err(
+			new InvalidInputError(
+				`Prompt part ${index} is a Blob of type "${type}"; only image/* and audio/* Blobs are supported`,
+				{ api: "LanguageModel" },
+			),
+		);
+	}
+	if (isInstanceOf(part, "AudioBuffer")) {
+		return ok({ type: "audio", value: part as AudioBuffer });
+	}
+	if (
+		isInstanceOf(part, "ImageBitmap") ||
+		isInstanceOf(part, "HTMLCanvasElement")
+	) {
+		return ok({ type: "image", value: part as ImageBitmapSource });
+	}
+	return err(
+		new InvalidInputError(
+			`Prompt part ${index} is not a string, Blob, ImageBitmap, HTMLCanvasElement or AudioBuffer`,
+			{ api: "LanguageModel" },
+		),
+	);
+}
+
+/**
+ * Builds a single user message from text and media parts. Fails with an
+ * InvalidInputError if a part has an unsupported type, or if it needs an
+ * input type missing from `expectedInputs`: the native API would reject it
+ * with a less helpful message.
+ */
+export function toMediaPrompt(
+	parts: readonly PromptMediaPart[],
+	expectedInputs: readonly LanguageModelExpected[],
+): Result<LanguageModelMessage[], ChromiumAIError> {
+	if (parts.length === 0) {
+		return err(
+			new InvalidInputError("A prompt needs at least one part", {
+				api: "LanguageModel",
+			}),
+		);
+	}
+
+	const content: LanguageModelMessageContent[] = [];
+	for (const [index, part] of parts.entries()) {
+		const converted = toMessageContent(part, index);
+		if (converted.isErr()) {
+			return err(converted.error);
+		}
+		content.push(converted.value);
+	}
+
+	const expectedTypes = new Set(expectedInputs.map(({ type }) => type));
+	const missing = [
+		...new Set(
+			content
+				.map(({ type }) => type)
+				.filter((type) => type !== "text" && !expectedTypes.has(type)),
+		),
+	];
+	if (missing.length > 0) {
+		return err(
+			new InvalidInputError(
+				`The prompt contains ${missing.join(" and ")} input, but the model was not initialized for it. Add ${missing.map((type) => `{ type: "${type}" }`).join(" and ")} to expectedInputs when calling initLanguageModel().`,
+				{ api: "LanguageModel" },
+			),
+		);
+	}
+
+	return ok([{ role: "user", content }]);
+}
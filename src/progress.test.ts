@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createProgressAggregator } from "./progress";
+
+describe("createProgressAggregator", () => {
+	it("averages the progress of the listed APIs", () => {
+		const updates: number[] = [];
+		const onProgress = createProgressAggregator(
+			(fraction) => updates.push(fraction),
+			["LanguageModel", "Summarizer"],
+		);
+
+		onProgress(0.5, "LanguageModel");
+		onProgress(1, "LanguageModel");
+		onProgress(1, "Summarizer");
+
+		expect(updates).toEqual([0.25, 0.5, 1]);
+	});
+
+	it("adds unlisted APIs on their first report", () => {
+		let latest: Record<string, number> = {};
+		const onProgress = createProgressAggregator((_fraction, byApi) => {
+			latest = byApi;
+		});
+
+		onProgress(0.4, "Translator");
+		onProgress(1.5, "Language Detector");
+
+		expect(latest).toEqual({ Translator: 0.4, "Language Detector": 1 });
+	});
+});
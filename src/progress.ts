@@ -0,0 +1,36 @@
+import type { InitProgressCallback } from "./types";
+
+/**
+ * Combines the download progress of several init calls into one fraction.
+ * The returned callback is passed as `onProgress` to every init function;
+ * `onChange` receives the average over all APIs and each API's own fraction.
+ *
+ * APIs listed in `apis` count as 0 until they report, so the overall fraction
+ * does not jump when a slower init starts reporting late. Other APIs join the
+ * average on their first report.
+ *
+ * @example
+ * const onProgress = createProgressAggregator(
+ *   (fraction) => { progressBar.value = fraction; },
+ *   ["LanguageModel", "Summarizer"],
+ * );
+ * await Promise.all([
+ *   initLanguageModel({ onProgress }),
+ *   initSummarizer({ onProgress }),
+ * ]);
+ */
+export function createProgressAggregator(
+	onChange: (fraction: number, byApi: Readonly<Record<string, number>>) => void,
+	apis: readonly string[] = [],
+): InitProgressCallback {
+	const byApi: Record<string, number> = Object.fromEntries(
+		apis.map((api) => [api, 0]),
+	);
+
+	return (fraction, api) => {
+		byApi[api] = Math.min(Math.max(fraction, 0), 1);
+		const fractions = Object.values(byApi);
+		const total = fractions.reduce((sum, value) => sum + value, 0);
+		onChange(total / fractions.length, { ...byApi });
+	};
+}
@@ -0,0 +1,150 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import type {
+	ProofreadingCorrection,
+	ProofreadingResult,
+	SafeProofreaderInstance,
+} from "./types";
+import { checkAvailability, initFailure } from "./utils";
+
+function toProofreadingResult(
+	input: string,
+	result: ProofreadResult,
+): ProofreadingResult {
+	return {
+		correctedText: result.correctedInput,
+		corrections: result.corrections.map((correction) => ({
+			start: correction.startIndex,
+			end: correction.endIndex,
+			original: input.slice(correction.startIndex, correction.endIndex),
+			replacement: correction.correction,
+			types: correction.types ?? [],
+			explanation: correction.explanation,
+		})),
+	};
+}
+
+/**
+ * Applies a chosen subset of corrections to the original text.
+ * Offsets always refer to the original text, so corrections can be applied
+ * in any combination. Corrections overlapping an earlier one are skipped.
+ *
+ * @example
+ * const { corrections } = await proofreader.proofread(text);
+ * const fixed = applyCorrections(
+ *   text,
+ *   corrections.filter((c) => c.types.includes("spelling")),
+ * );
+ */
+export function applyCorrections(
+	text: string,
+	corrections: readonly ProofreadingCorrection[],
+): string {
+	const sorted = [...corrections].sort((a, b) => a.start - b.start);
+	let output = "";
+	let cursor = 0;
+
+	for (const correction of sorted) {
+		if (correction.start < cursor) {
+			continue;
+		}
+		output += text.slice(cursor, correction.start) + correction.replacement;
+		cursor = correction.end;
+	}
+
+	return output + text.slice(cursor);
+}
+
+/**
+ * Initializes the Proofreader API by checking availability and triggering model download.
+ * Returns a safe instance object with `.proofread()` and `.createSession()` methods.
+ *
+ * Correction types are requested by default so each correction can be filtered by kind.
+ *
+ * @param options Optional options (expectedInputLanguages, includeCorrectionExplanations)
+ * @returns A Result containing a SafeProofreaderInstance or a ChromiumAIError
+ *
+ * @example
+ * const result = await initProofreader();
+ * result.match(
+ *   (proofreader) => proofreader.proofread("I seen him yesterday"),
+ *   (error) => console.error(error.message)
+ * );
+ */
+export function initProofreader(
+	options?: ProofreaderCreateOptions,
+): ResultAsync<SafeProofreaderInstance, ChromiumAIError> {
+	const mergedOptions: ProofreaderCreateOptions = {
+		includeCorrectionTypes: true,
+		...options,
+	};
+
+	if (typeof Proofreader === "undefined") {
+		return errAsync(
+			new ApiNotPresentError(
+				"Proofreader API is not available in this browser. Ensure you are using Chrome 141+ or a supported Chromium-based browser.",
+				{ api: "Proofreader" },
+			),
+		);
+	}
+
+	return checkAvailability(
+		() => Proofreader.availability(mergedOptions),
+		"Proofreader",
+	).andThen((availability) =>
+		ResultAsync.fromPromise(
+			(async () => {
+				// Create and keep the session alive for reuse
+				const proofreader = await Proofreader.create(mergedOptions);
+
+				const instance: SafeProofreaderInstance = {
+					proofread: (text, signal) =>
+						ResultAsync.fromPromise(
+							proofreader.proofread(text, signal ? { signal } : undefined),
+							(error) =>
+								toChromiumAIError(
+									error,
+									"Proofreader",
+									(message, details) =>
+										new OperationFailedError(
+											`Proofreading failed: ${message}`,
+											details,
+										),
+								),
+						).map((result) => toProofreadingResult(text, result)),
+					createSession: (createOptions) =>
+						ResultAsync.fromPromise(
+							Proofreader.create({ ...mergedOptions, ...createOptions }),
+							(error) =>
+								toChromiumAIError(
+									error,
+									"Proofreader",
+									(message, details) =>
+										new SessionCreateFailedError(
+											`Failed to create Proofreader session: ${message}`,
+											details,
+										),
+								),
+						),
+					destroy: () => proofreader.destroy(),
+				};
+
+				return instance;
+			})(),
+			(error) =>
+				toChromiumAIError(
+					error,
+					"Proofreader",
+					initFailure(availability, "Proofreader"),
+				),
+		),
+	);
+}
@@ -0,0 +1,96 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initProofreader } from "./proofreader";
+import { applyCorrections } from "./proofreader-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes?.uninstall();
+});
+
+describe("initProofreader", () => {
+	it("requests correction types and maps corrections", async () => {
+		fakes = installChromiumAIFakes({
+			proofreader: {
+				respond: {
+					correctedInput: "I saw the cat.",
+					corrections: [
+						{
+							startIndex: 2,
+							endIndex: 6,
+							correction: "saw",
+							types: ["grammar"],
+						},
+						{
+							startIndex: 7,
+							endIndex: 10,
+							correction: "the",
+							types: ["spelling"],
+						},
+					],
+				},
+			},
+		});
+		const proofreader = await initProofreader();
+
+		const result = await proofreader.proofread("I seen teh cat.");
+
+		expect(fakes.proofreader.createCalls[0]).toEqual({
+			includeCorrectionTypes: true,
+		});
+		expect(result.correctedText).toBe("I saw the cat.");
+		expect(result.corrections[0]).toEqual({
+			start: 2,
+			end: 6,
+			original: "seen",
+			replacement: "saw",
+			types: ["grammar"],
+			explanation: undefined,
+		});
+	});
+
+	it("keeps the correction type default in new sessions", async () => {
+		fakes = installChromiumAIFakes();
+		const proofreader = await initProofreader();
+
+		await proofreader.createSession({ expectedInputLanguages: ["de"] });
+
+		expect(fakes.proofreader.createCalls.at(-1)).toEqual({
+			includeCorrectionTypes: true,
+			expectedInputLanguages: ["de"],
+		});
+	});
+});
+
+describe("applyCorrections", () => {
+	const text = "I seen teh cat.";
+	const grammar = {
+		start: 2,
+		end: 6,
+		original: "seen",
+		replacement: "saw",
+		types: ["grammar" as const],
+	};
+	const spelling = {
+		start: 7,
+		end: 10,
+		original: "teh",
+		replacement: "the",
+		types: ["spelling" as const],
+	};
+
+	it("applies any subset of corrections using original offsets", () => {
+		expect(applyCorrections(text, [spelling])).toBe("I seen the cat.");
+		expect(applyCorrections(text, [spelling, grammar])).toBe("I saw the cat.");
+		expect(applyCorrections(text, [])).toBe(text);
+	});
+
+	it("skips corrections that overlap an earlier one", () => {
+		const overlapping = { ...spelling, start: 4, end: 9 };
+
+		expect(applyCorrections(text, [grammar, overlapping])).toBe(
+			"I saw teh cat.",
+		);
+	});
+});
@@ -0,0 +1,36 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import * as Safe from "./proofreader-safe";
+import type { ProofreaderInstance } from "./types";
+import { okOrThrow } from "./utils";
+
+/**
+ * Initializes the Proofreader API by checking availability and triggering model download.
+ * Returns an instance object with `.proofread()` and `.createSession()` methods.
+ *
+ * @param options Optional options (expectedInputLanguages, includeCorrectionExplanations)
+ * @returns A ProofreaderInstance
+ * @throws {Error} If initialization fails
+ *
+ * @example
+ * const proofreader = await initProofreader();
+ * const { correctedText, corrections } = await proofreader.proofread("I seen him yesterday");
+ */
+export async function initProofreader(
+	options?: ProofreaderCreateOptions,
+): Promise<ProofreaderInstance> {
+	const safeInstance = await Safe.initProofreader(options);
+	const safe = okOrThrow(safeInstance);
+
+	return {
+		proofread: async (text, signal) => {
+			const result = await safe.proofread(text, signal);
+			return okOrThrow(result);
+		},
+		createSession: async (createOptions) => {
+			const result = await safe.createSession(createOptions);
+			return okOrThrow(result);
+		},
+		destroy: () => safe.destroy(),
+	};
+}
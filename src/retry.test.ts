@@ -0,0 +1,225 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { initDetector } from "./detector-safe";
+import { initLanguageModel } from "./safe";
+import { initSummarizer } from "./summarizer-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslator } from "./translator-safe";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+	vi.restoreAllMocks();
+});
+
+const fast = { initialDelay: 1, jitter: 0 };
+
+/** Throws `error` for the first `failures` calls, then answers. */
+function failing(failures: number, error: unknown = new Error("GPU crashed")) {
+	let calls = 0;
+	return () => {
+		calls++;
+		if (calls <= failures) {
+			throw error;
+		}
+		return `reply after ${calls} calls`;
+	};
+}
+
+describe("retry policy", () => {
+	it("retries a transient prompt failure", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(2) } });
+		const ai = (await initLanguageModel({ retry: fast }))._unsafeUnwrap();
+
+		const result = await ai.prompt("Hello");
+
+		expect(result._unsafeUnwrap()).toBe("reply after 3 calls");
+	});
+
+	it("gives up after maxAttempts", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(5) } });
+		const ai = (
+			await initLanguageModel({ retry: { ...fast, maxAttempts: 2 } })
+		)._unsafeUnwrap();
+
+		const error = (await ai.prompt("Hello"))._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("OperationFailed");
+		expect(fakes.languageModel.sessions).toHaveLength(2);
+	});
+
+	it("does not retry without a policy", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(1) } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		expect((await ai.prompt("Hello")).isErr()).toBe(true);
+	});
+
+	it("lets a call override or disable the instance policy", async () => {
+		fakes = installChromiumAIFakes({ translator: { respond: failing(2) } });
+		const translator = (
+			await initTranslator({
+				sourceLanguage: "en",
+				targetLanguage: "de",
+				retry: { ...fast, maxAttempts: 2 },
+			})
+		)._unsafeUnwrap();
+
+		const disabled = await translator.translate("Hi", undefined, {
+			retry: false,
+		});
+		const overridden = await translator.translate("Hi", undefined, {
+			retry: { maxAttempts: 5 },
+		});
+
+		expect(disabled.isErr()).toBe(true);
+		expect(overridden._unsafeUnwrap()).toBe("reply after 3 calls");
+	});
+
+	it("never retries invalid input or aborts", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: failing(
+					1,
+					new DOMException("Unsupported input", "NotSupportedError"),
+				),
+			},
+			summarizer: {
+				respond: failing(1, new DOMException("Aborted", "AbortError")),
+			},
+		});
+		const retryEverything = { ...fast, retryable: () => true };
+		const translator = (
+			await initTranslator({
+				sourceLanguage: "en",
+				targetLanguage: "de",
+				retry: retryEverything,
+			})
+		)._unsafeUnwrap();
+		const summarizer = (
+			await initSummarizer({ retry: retryEverything })
+		)._unsafeUnwrap();
+
+		const translateError = (
+			await translator.translate("Hi")
+		)._unsafeUnwrapErr();
+		const summarizeError = (
+			await summarizer.summarize("Hi")
+		)._unsafeUnwrapErr();
+
+		expect(translateError.kind).toBe("InvalidInput");
+		expect(summarizeError.kind).toBe("Aborted");
+		expect((await translator.translate("Hi")).isOk()).toBe(true);
+	});
+
+	it("retries detect", async () => {
+		let calls = 0;
+		fakes = installChromiumAIFakes({
+			languageDetector: {
+				respond: () => {
+					calls++;
+					if (calls === 1) {
+						throw new Error("GPU crashed");
+					}
+					return [{ detectedLanguage: "fr", confidence: 0.9 }];
+				},
+			},
+		});
+		const detector = (await initDetector({ retry: fast }))._unsafeUnwrap();
+
+		const result = await detector.detect("Bonjour");
+
+		expect(result._unsafeUnwrap()).toEqual([
+			{ detectedLanguage: "fr", confidence: 0.9 },
+		]);
+	});
+
+	it("asks the retryable predicate with the failed attempt number", async () => {
+		fakes = installChromiumAIFakes({ summarizer: { respond: failing(3) } });
+		const attempts: number[] = [];
+		const summarizer = (
+			await initSummarizer({
+				retry: {
+					...fast,
+					maxAttempts: 5,
+					retryable: (error, attempt) => {
+						attempts.push(attempt);
+						return error.kind === "OperationFailed" && attempt < 2;
+					},
+				},
+			})
+		)._unsafeUnwrap();
+
+		const result = await summarizer.summarize("Text");
+
+		expect(result.isErr()).toBe(true);
+		expect(attempts).toEqual([1, 2]);
+	});
+
+	it("retries createSession", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel({ retry: fast }))._unsafeUnwrap();
+		fakes.languageModel.createError = new Error("GPU process restarting");
+
+		const error = (await ai.createSession())._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("SessionCreateFailed");
+		expect(fakes.languageModel.createCalls).toHaveLength(3);
+	});
+
+	it("backs off exponentially up to maxDelay", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(4) } });
+		const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+		const ai = (
+			await initLanguageModel({
+				retry: {
+					maxAttempts: 5,
+					initialDelay: 2,
+					backoffFactor: 3,
+					maxDelay: 10,
+					jitter: 0,
+				},
+			})
+		)._unsafeUnwrap();
+
+		await ai.prompt("Hello");
+
+		const delays = setTimeoutSpy.mock.calls
+			.map(([, ms]) => ms)
+			.filter((ms) => ms !== undefined && ms > 0);
+		expect(delays).toEqual([2, 6, 10, 10]);
+	});
+
+	it("randomizes delays by the jitter fraction", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(1) } });
+		vi.spyOn(Math, "random").mockReturnValue(0.5);
+		const setTimeoutSpy = vi.spyOn(globalThis, "setTimeout");
+		const ai = (
+			await initLanguageModel({ retry: { initialDelay: 8, jitter: 0.5 } })
+		)._unsafeUnwrap();
+
+		await ai.prompt("Hello");
+
+		const delays = setTimeoutSpy.mock.calls
+			.map(([, ms]) => ms)
+			.filter((ms) => ms !== undefined && ms > 0);
+		expect(delays).toEqual([6]);
+	});
+
+	it("stops waiting when the signal aborts during the backoff", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: failing(5) } });
+		const ai = (
+			await initLanguageModel({ retry: { initialDelay: 1000, jitter: 0 } })
+		)._unsafeUnwrap();
+		const controller = new AbortController();
+
+		const pending = ai.prompt("Hello", undefined, {
+			signal: controller.signal,
+		});
+		setTimeout(() => controller.abort(), 10);
+		const error = (await pending)._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("Aborted");
+		expect(fakes.languageModel.sessions).toHaveLength(1);
+	});
+});
@@ -0,0 +1,139 @@
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+	AbortedError,
+	type ChromiumAIError,
+	type ChromiumAIErrorKind,
+} from "./errors";
+
+/**
+ * When and how often a failed call is tried again. Delays grow exponentially
+ * from `initialDelay` up to `maxDelay`, each randomized by `jitter`.
+ */
+export interface RetryPolicy {
+	/** Total attempts, including the first. Defaults to 3. */
+	maxAttempts?: number;
+	/** Milliseconds before the first retry. Defaults to 250. */
+	initialDelay?: number;
+	/** Factor each further delay is multiplied by. Defaults to 2. */
+	backoffFactor?: number;
+	/** Upper bound for a single delay in milliseconds. Defaults to 5000. */
+	maxDelay?: number;
+	/**
+	 * Fraction of each delay that is randomized, from 0 (fixed delays) to 1
+	 * (anywhere between 0 and the full delay). Defaults to 0.5.
+	 */
+	jitter?: number;
+	/**
+	 * Decides whether an error is retried; `attempt` is the number of the
+	 * attempt that failed, starting at 1. Defaults to retrying
+	 * SessionCreateFailed and OperationFailed errors. Aborted and InvalidInput
+	 * errors are never retried, whatever this returns.
+	 */
+	retryable?: (error: ChromiumAIError, attempt: number) => boolean;
+}
+
+/**
+ * Per-call retry control. A policy is merged over the instance's policy;
+ * `false` disables retries for the call.
+ */
+export interface RetryCallOptions {
+	retry?: RetryPolicy | false;
+}
+
+const NEVER_RETRIED: readonly ChromiumAIErrorKind[] = [
+	"Aborted",
+	"InvalidInput",
+];
+
+const RETRIED_BY_DEFAULT: readonly ChromiumAIErrorKind[] = [
+	"SessionCreateFailed",
+	"OperationFailed",
+];
+
+/**
+ * Merges a per-call retry option over the instance's policy. Returns
+ * undefined when the call should not be retried.
+ */
+export function resolveRetryPolicy(
+	instancePolicy: RetryPolicy | undefined,
+	callPolicy: RetryPolicy | false | undefined,
+): RetryPolicy | undefined {
+	if (callPolicy === false) {
+		return undefined;
+	}
+	if (callPolicy === undefined) {
+		return instancePolicy;
+	}
+	return { ...instancePolicy, ...callPolicy };
+}
+
+/** The delay before retry number `retry` (starting at 1), jitter included. */
+function retryDelay(policy: RetryPolicy, retry: number): number {
+	const base = Math.min(
+		(policy.initialDelay ?? 250) * (policy.backoffFactor ?? 2) ** (retry - 1),
+		policy.maxDelay ?? 5000,
+	);
+	const jitter = Math.min(Math.max(policy.jitter ?? 0.5, 0), 1);
+	return base * (1 - jitter * Math.random());
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<boolean> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve(false);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timeoutId);
+			resolve(false);
+		};
+		const timeoutId = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve(true);
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Runs `attempt` and, while it fails with a retryable error, runs it again
+ * after the policy's backoff delay. Without a policy, runs it once. An abort
+ * of `signal` during a delay ends the retries with an AbortedError.
+ */
+export function withRetry<T>(
+	policy: RetryPolicy | undefined,
+	signal: AbortSignal | undefined,
+	attempt: () => ResultAsync<T, ChromiumAIError>,
+): ResultAsync<T, ChromiumAIError> {
+	if (!policy) {
+		return attempt();
+	}
+
+	const maxAttempts = policy.maxAttempts ?? 3;
+	const isRetryable = (error: ChromiumAIError, attemptNumber: number) =>
+		!NEVER_RETRIED.includes(error.kind) &&
+		(policy.retryable
+			? policy.retryable(error, attemptNumber)
+			: RETRIED_BY_DEFAULT.includes(error.kind));
+
+	const run = (attemptNumber: number): ResultAsync<T, ChromiumAIError> =>
+		attempt().orElse((error) => {
+			if (attemptNumber >= maxAttempts || !isRetryable(error, attemptNumber)) {
+				return errAsync(error);
+			}
+			return ResultAsync.fromSafePromise(
+				sleep(retryDelay(policy, attemptNumber), signal),
+			).andThen((slept) =>
+				slept
+					? run(attemptNumber + 1)
+					: errAsync<T, ChromiumAIError>(
+							new AbortedError("Aborted while waiting to retry", {
+								api: error.api,
+								cause: signal?.reason,
+							}),
+						),
+			);
+		});
+
+	return run(1);
+}
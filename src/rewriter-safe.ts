@@ -0,0 +1,109 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import type { SafeRewriterInstance } from "./types";
+import { checkAvailability, initFailure, iterateStream } from "./utils";
+
+/**
+ * Initializes the Rewriter API by checking availability and triggering model download.
+ * Returns a safe instance object with `.rewrite()`, `.rewriteStreaming()` and `.createSession()` methods.
+ *
+ * @param createOptions Optional creation options (tone, format, length, sharedContext)
+ * @returns A Result containing a SafeRewriterInstance or a ChromiumAIError
+ *
+ * @example
+ * const result = await initRewriter({ tone: "more-formal" });
+ * result.match(
+ *   (rewriter) => rewriter.rewrite("hey, can u send the report"),
+ *   (error) => console.error(error.message)
+ * );
+ */
+export function initRewriter(
+	createOptions?: RewriterCreateOptions,
+): ResultAsync<SafeRewriterInstance, ChromiumAIError> {
+	// Default outputLanguage to "en" if not specified
+	const mergedOptions: RewriterCreateOptions = {
+		outputLanguage: "en",
+		...createOptions,
+	};
+
+	if (typeof Rewriter === "undefined") {
+		return errAsync(
+			new ApiNotPresentError(
+				"Rewriter API is not available in this browser. Ensure you are using Chrome 137+ or a supported Chromium-based browser.",
+				{ api: "Rewriter" },
+			),
+		);
+	}
+
+	return checkAvailability(
+		() => Rewriter.availability(mergedOptions),
+		"Rewriter",
+	).andThen((availability) =>
+		ResultAsync.fromPromise(
+			(async () => {
+				// Create and keep the session alive for reuse
+				const rewriter = await Rewriter.create(mergedOptions);
+
+				const instance: SafeRewriterInstance = {
+					rewrite: (text, rewriteOptions) =>
+						ResultAsync.fromPromise(
+							rewriter.rewrite(text, rewriteOptions),
+							(error) =>
+								toChromiumAIError(
+									error,
+									"Rewriter",
+									(message, details) =>
+										new OperationFailedError(
+											`Rewriting failed: ${message}`,
+											details,
+										),
+								),
+						),
+					rewriteStreaming: (text, rewriteOptions) =>
+						iterateStream(
+							() => rewriter.rewriteStreaming(text, rewriteOptions),
+							(error) =>
+								toChromiumAIError(
+									error,
+									"Rewriter",
+									(message, details) =>
+										new OperationFailedError(
+											`Rewriting failed: ${message}`,
+											details,
+										),
+								),
+						),
+					createSession: () =>
+						ResultAsync.fromPromise(Rewriter.create(mergedOptions), (error) =>
+							toChromiumAIError(
+								error,
+								"Rewriter",
+								(message, details) =>
+									new SessionCreateFailedError(
+										`Failed to create Rewriter session: ${message}`,
+										details,
+									),
+							),
+						),
+					destroy: () => rewriter.destroy(),
+				};
+
+				return instance;
+			})(),
+			(error) =>
+				toChromiumAIError(
+					error,
+					"Rewriter",
+					initFailure(availability, "Rewriter"),
+				),
+		),
+	);
+}
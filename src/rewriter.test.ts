@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initRewriter } from "./rewriter";
+import { initRewriter as safeInitRewriter } from "./rewriter-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initRewriter", () => {
+	it("fails with DownloadFailed when the download is aborted by an error", async () => {
+		fakes = installChromiumAIFakes({
+			rewriter: {
+				availability: "downloadable",
+				createError: new Error("Disk full"),
+			},
+		});
+
+		const result = await safeInitRewriter();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("DownloadFailed");
+	});
+
+	it("rewrites with per-call context and streams", async () => {
+		fakes = installChromiumAIFakes({
+			rewriter: {
+				respond: (input, _session, options) =>
+					`${input.toUpperCase()} ${options?.context ?? ""}`.trim(),
+			},
+		});
+		const rewriter = await initRewriter({ tone: "more-formal" });
+
+		await expect(
+			rewriter.rewrite("hey", { context: "to a manager" }),
+		).resolves.toBe("HEY to a manager");
+
+		const chunks: string[] = [];
+		for await (const chunk of rewriter.rewriteStreaming("hi there")) {
+			chunks.push(chunk);
+		}
+		expect(chunks).toEqual(["HI ", "THERE"]);
+	});
+});
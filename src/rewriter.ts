@@ -0,0 +1,40 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import * as Safe from "./rewriter-safe";
+import type { RewriterInstance } from "./types";
+import { okOrThrow, okOrThrowIterable } from "./utils";
+
+/**
+ * Initializes the Rewriter API by checking availability and triggering model download.
+ * Returns an instance object with `.rewrite()`, `.rewriteStreaming()` and `.createSession()` methods.
+ *
+ * @param createOptions Optional creation options (tone, format, length, sharedContext)
+ * @returns A RewriterInstance
+ * @throws {Error} If initialization fails
+ *
+ * @example
+ * const rewriter = await initRewriter({ tone: "more-formal" });
+ * const rewritten = await rewriter.rewrite("hey, can u send the report", {
+ *   context: "Message to a manager",
+ * });
+ */
+export async function initRewriter(
+	createOptions?: RewriterCreateOptions,
+): Promise<RewriterInstance> {
+	const safeInstance = await Safe.initRewriter(createOptions);
+	const safe = okOrThrow(safeInstance);
+
+	return {
+		rewrite: async (text, rewriteOptions) => {
+			const result = await safe.rewrite(text, rewriteOptions);
+			return okOrThrow(result);
+		},
+		rewriteStreaming: (text, rewriteOptions) =>
+			okOrThrowIterable(safe.rewriteStreaming(text, rewriteOptions)),
+		createSession: async () => {
+			const result = await safe.createSession();
+			return okOrThrow(result);
+		},
+		destroy: () => safe.destroy(),
+	};
+}
@@ -0,0 +1,320 @@
+import { ResultAsync } from "neverthrow";
+import { afterEach, describe, expect, it } from "vitest";
+import { initLanguageModel } from "./safe";
+import {
+	type ChromiumAIFakes,
+	installChromiumAIFakes,
+	sequence,
+} from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initLanguageModel", () => {
+	it("fails with ApiNotPresent when the global is missing", async () => {
+		fakes = installChromiumAIFakes({ languageModel: false });
+
+		const result = await initLanguageModel();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ApiNotPresent");
+	});
+
+	it("fails with ModelUnavailable when the device cannot run the model", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { availability: "unavailable" },
+		});
+
+		const result = await initLanguageModel();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ModelUnavailable");
+	});
+
+	it("downloads the model and reports progress through the monitor", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				availability: "downloadable",
+				downloadProgress: [0, 0.5, 1],
+			},
+		});
+		const progress: number[] = [];
+
+		const result = await initLanguageModel({
+			monitor: (monitor) => {
+				monitor.addEventListener("downloadprogress", (event) => {
+					progress.push(event.loaded);
+				});
+			},
+		});
+
+		expect(result.isOk()).toBe(true);
+		expect(progress).toEqual([0, 0.5, 1]);
+		expect(fakes.languageModel.availability).toBe("available");
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("reports progress through onProgress, ending at 1", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				availability: "downloadable",
+				downloadProgress: [0, 0.25, 0.5],
+			},
+		});
+		const progress: [number, string][] = [];
+
+		await initLanguageModel({
+			onProgress: (fraction, api) => progress.push([fraction, api]),
+		});
+
+		expect(progress).toEqual([
+			[0, "LanguageModel"],
+			[0.25, "LanguageModel"],
+			[0.5, "LanguageModel"],
+			[1, "LanguageModel"],
+		]);
+	});
+
+	it("fails with Timeout when the download outlasts the timeout", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { availability: "downloadable", downloadDelay: 50 },
+		});
+
+		const error = (await initLanguageModel({ timeout: 10 }))._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("Timeout");
+		expect(error.message).toBe(
+			"LanguageModel initialization timed out after 10ms",
+		);
+	});
+
+	it("fails with DownloadFailed when the download errors", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				availability: "downloadable",
+				createError: new DOMException("Network error", "NetworkError"),
+			},
+		});
+
+		const result = await initLanguageModel();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("DownloadFailed");
+	});
+
+	it("does not create a session when the model is already available", async () => {
+		fakes = installChromiumAIFakes();
+
+		await initLanguageModel();
+
+		expect(fakes.languageModel.createCalls).toHaveLength(0);
+	});
+});
+
+describe("SafeLanguageModelInstance", () => {
+	it("prompts through a one-shot session and destroys it", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Hi there" } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.prompt("Hello");
+
+		expect(result._unsafeUnwrap()).toBe("Hi there");
+		expect(fakes.languageModel.sessions).toHaveLength(1);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("passes session options and default expected inputs to create", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		await ai.prompt("Hello", undefined, undefined, {
+			initialPrompts: [{ role: "system", content: "Be brief" }],
+		});
+
+		expect(fakes.languageModel.createCalls[0]).toMatchObject({
+			initialPrompts: [{ role: "system", content: "Be brief" }],
+			expectedInputs: [{ type: "text", languages: ["en"] }],
+		});
+	});
+
+	it("reports a timeout as a Timeout error", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { latency: 50 } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.prompt("Hello", 5);
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Timeout");
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("reports a caller abort as an Aborted error", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { latency: 50 } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+		const controller = new AbortController();
+
+		const pending = ai.prompt("Hello", undefined, {
+			signal: controller.signal,
+		});
+		controller.abort();
+
+		expect((await pending)._unsafeUnwrapErr().kind).toBe("Aborted");
+	});
+
+	it("reports input beyond the context window as QuotaExceeded", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { contextWindow: 2 } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.prompt("This prompt is far too long");
+
+		expect(result._unsafeUnwrapErr().kind).toBe("QuotaExceeded");
+	});
+
+	it("streams chunks and destroys the session at the end", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: "one two three" },
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const chunks: string[] = [];
+		for await (const chunk of ai.promptStreaming("Count")) {
+			chunks.push(chunk._unsafeUnwrap());
+		}
+
+		expect(chunks).toEqual(["one ", "two ", "three"]);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("destroys the streaming session when the consumer stops early", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: "one two three" },
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		for await (const chunk of ai.promptStreaming("Count")) {
+			expect(chunk._unsafeUnwrap()).toBe("one ");
+			break;
+		}
+
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("yields a stream failure once as an err", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: () => {
+					throw new DOMException("Bad input", "NotSupportedError");
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const results = [];
+		for await (const chunk of ai.promptStreaming("Hello")) {
+			results.push(chunk);
+		}
+
+		expect(results).toHaveLength(1);
+		expect(results[0]?._unsafeUnwrapErr().kind).toBe("InvalidInput");
+	});
+
+	it("measures token usage against the context window", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				contextWindow: 100,
+				countTokens: (input) => (typeof input === "string" ? 10 : 20),
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const usage = await ai.checkTokenUsage("Hello", {
+			initialPrompts: [{ role: "system", content: "Be brief" }],
+		});
+
+		expect(usage._unsafeUnwrap()).toEqual({
+			promptTokens: 10,
+			maxTokens: 100,
+			tokensSoFar: 20,
+			tokensAvailable: 80,
+			willFit: true,
+		});
+	});
+
+	it("keeps the session alive for the withSession callback", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Hi" } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.withSession((session) =>
+			ResultAsync.fromSafePromise(session.prompt("Hello")),
+		);
+
+		expect(result._unsafeUnwrap()).toBe("Hi");
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+});
+
+describe("promptJson", () => {
+	const schema = {
+		type: "object" as const,
+		properties: { count: { type: "integer" as const } },
+		required: ["count"],
+	};
+
+	it("returns the parsed value and sends the schema as the constraint", async () => {
+		const constraints: unknown[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (_input, _session, options) => {
+					constraints.push(options?.responseConstraint);
+					return '{"count": 3}';
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.promptJson<{ count: number }>("Count", schema);
+
+		expect(result._unsafeUnwrap()).toEqual({ count: 3 });
+		expect(constraints).toEqual([schema]);
+	});
+
+	it("re-prompts with the validation issues until the response is valid", async () => {
+		const inputs: unknown[] = [];
+		const responses = sequence(
+			"not json",
+			'{"count": "three"}',
+			'{"count": 3}',
+		);
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					inputs.push(input);
+					return responses();
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.promptJson("Count", schema);
+
+		expect(result._unsafeUnwrap()).toEqual({ count: 3 });
+		expect(inputs).toHaveLength(3);
+		expect(inputs[2]).toContain("$.count: expected integer, got string");
+		expect(fakes.languageModel.sessions).toHaveLength(1);
+	});
+
+	it("fails with a StructuredOutput error once the repair attempts run out", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "{}" } });
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const error = (
+			await ai.promptJson("Count", schema, { maxRepairAttempts: 1 })
+		)._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("StructuredOutput");
+		expect(error).toMatchObject({
+			attempts: 2,
+			lastResponse: "{}",
+			issues: ['$: missing required property "count"'],
+		});
+	});
+});
@@ -1,23 +1,60 @@
 /// <reference types="@types/dom-chromium-ai" />
 
-import { err, ok, ResultAsync } from "neverthrow";
-import { match } from "ts-pattern";
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import { runBatch } from "./batch";
+import { createResponseCache } from "./cache";
+import {
+	createConversation,
+	parseConversationSnapshot,
+} from "./conversation-safe";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	DownloadFailedError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	StructuredOutputError,
+	toChromiumAIError,
+} from "./errors";
+import { type JsonSchema, validateJsonSchema } from "./json-schema";
+import { toMediaPrompt } from "./media";
+import { type RetryCallOptions, resolveRetryPolicy, withRetry } from "./retry";
+import {
+	runScheduled,
+	runScheduledStream,
+	type ScheduleCallOptions,
+	type ScheduledCall,
+	type ScheduleOptions,
+	scheduleCalls,
+} from "./scheduler";
+import { createSessionPool } from "./session-pool";
+import { resolvePrompt } from "./template";
+import { runWithTools } from "./tools";
 import type {
 	LanguageModelInitOptions,
+	PromptJsonOptions,
 	SafeLanguageModelInstance,
 	TokenUsageInfo,
 } from "./types";
+import {
+	checkAvailability,
+	DEFAULT_LANGUAGE_MODEL_EXPECTED,
+	iterateStream,
+	prepareInit,
+	withPromptTimeout,
+} from "./utils";
 
 /**
  * Initializes the LanguageModel API by checking availability and triggering model download.
- * Returns a safe instance object with `.prompt()`, `.createSession()`, `.withSession()`,
- * and `.checkTokenUsage()` methods that return ResultAsync.
+ * Returns a safe instance object with `.prompt()`, `.promptWithMedia()`, `.promptStreaming()`,
+ * `.promptMany()`, `.promptJson()`, `.runWithTools()`, `.createSession()`, `.createConversation()`, `.restoreConversation()`,
+ * `.withSession()`, and `.checkTokenUsage()` methods that return Results, plus `.dispose()`.
  *
  * Init is only about capability (can the model run?), not behavior (what should it say?).
  * Pass system prompts via `createSession()` or the `sessionOptions` parameter on `.prompt()`.
  *
- * @param options Optional init options (expectedInputs, expectedOutputs, monitor, signal)
- * @returns A Result containing a SafeLanguageModelInstance or an Error
+ * @param options Optional init options (expectedInputs, expectedOutputs, monitor, onProgress, signal, timeout, sessionPool, cache, retry, scheduler)
+ * @returns A Result containing a SafeLanguageModelInstance or a ChromiumAIError
  *
  * @example
  * const result = await initLanguageModel();
@@ -28,42 +65,35 @@ import type {
  */
 export function initLanguageModel(
 	options?: LanguageModelInitOptions,
-): ResultAsync<SafeLanguageModelInstance, Error> {
-	const expectedInputs = options?.expectedInputs ?? [
-		{ type: "text" as const, languages: ["en"] },
-	];
-	const expectedOutputs = options?.expectedOutputs ?? [
-		{ type: "text" as const, languages: ["en"] },
-	];
+): ResultAsync<SafeLanguageModelInstance, ChromiumAIError> {
+	const expectedInputs =
+		options?.expectedInputs ?? DEFAULT_LANGUAGE_MODEL_EXPECTED;
+	const expectedOutputs =
+		options?.expectedOutputs ?? DEFAULT_LANGUAGE_MODEL_EXPECTED;
+	const init = prepareInit("LanguageModel", options);
 
-	return new ResultAsync(
-		(async () => {
+	const initialized = new ResultAsync(
+		(async (): Promise<Result<SafeLanguageModelInstance, ChromiumAIError>> => {
 			if (typeof LanguageModel === "undefined") {
 				return err(
-					new Error(
+					new ApiNotPresentError(
 						"LanguageModel API is not available in this browser. Ensure you are using Chrome 148+ or a supported Chromium-based browser.",
+						{ api: "LanguageModel" },
 					),
 				);
 			}
 
-			const availability = await LanguageModel.availability({
-				expectedInputs,
-				expectedOutputs,
-			});
-
-			const canProceed = match(availability)
-				.with("unavailable", () =>
-					err(
-						new Error(
-							"LanguageModel API is present but the model is unavailable on this device.",
-						),
-					),
-				)
-				.with("downloadable", "downloading", "available", (a) => ok(a))
-				.exhaustive();
+			const canProceed = await checkAvailability(
+				() =>
+					LanguageModel.availability({
+						expectedInputs,
+						expectedOutputs,
+					}),
+				"LanguageModel",
+			);
 
 			if (canProceed.isErr()) {
-				return canProceed;
+				return err(canProceed.error);
 			}
 
 			// Only trigger download if the model isn't already local.
@@ -72,50 +102,238 @@ export function initLanguageModel(
 					const session = await LanguageModel.create({
 						expectedInputs,
 						expectedOutputs,
-						monitor: options?.monitor,
-						signal: options?.signal,
+						...init.createOptions,
 					});
 					session.destroy();
 				} catch (error) {
 					return err(
-						new Error(
-							`Failed to download LanguageModel: ${error instanceof Error ? error.message : String(error)}`,
+						toChromiumAIError(
+							error,
+							"LanguageModel",
+							(message, details) =>
+								new DownloadFailedError(
+									`Failed to download LanguageModel: ${message}`,
+									details,
+								),
 						),
 					);
 				}
 			}
 
+			const cache = options?.cache
+				? createResponseCache(options.cache)
+				: undefined;
+			const openSession = (sessionOptions?: LanguageModelCreateOptions) =>
+				createSession(expectedInputs, expectedOutputs, sessionOptions);
+			const pool = options?.sessionPool
+				? createSessionPool(openSession, options.sessionPool)
+				: undefined;
+			const acquireSession: AcquireSession = pool ? pool.acquire : openSession;
+			// Shared by prompt() and promptWithMedia(), inside any cache
+			const runPrompt = (
+				input: LanguageModelPrompt,
+				timeout: number | undefined,
+				promptOptions:
+					| (LanguageModelPromptOptions &
+							RetryCallOptions &
+							ScheduleCallOptions)
+					| undefined,
+				sessionOptions: LanguageModelCreateOptions | undefined,
+			) => {
+				const { retry, priority, ...nativePromptOptions } = promptOptions ?? {};
+				const signal = nativePromptOptions.signal;
+				return withRetry(
+					resolveRetryPolicy(options?.retry, retry),
+					signal,
+					() =>
+						runScheduled(options?.scheduler, { priority, signal }, () =>
+							prompt(
+								acquireSession,
+								input,
+								timeout,
+								nativePromptOptions,
+								sessionOptions,
+							),
+						),
+				);
+			};
+
+			/**
+			 * For calls that use one session for several native calls: getting the
+			 * session and each call take their own slot, so no slot is held while
+			 * tool handlers or callbacks run.
+			 */
+			const scheduleSessionCalls = (scheduleOptions: ScheduleOptions) => ({
+				acquire: (sessionOptions?: LanguageModelCreateOptions) =>
+					runScheduled(options?.scheduler, scheduleOptions, () =>
+						acquireSession(sessionOptions),
+					),
+				call: scheduleCalls(options?.scheduler, scheduleOptions),
+			});
+
 			const instance: SafeLanguageModelInstance = {
-				prompt: (text, timeout, promptOptions, sessionOptions) =>
-					prompt(
-						expectedInputs,
-						expectedOutputs,
+				prompt: (input, timeout, promptOptions, promptSessionOptions) => {
+					const [text, sessionOptions] = resolvePrompt(
+						input,
+						promptSessionOptions,
+					);
+					const { cache: cacheMode, ...callOptions } = promptOptions ?? {};
+					const run = () =>
+						runPrompt(text, timeout, callOptions, sessionOptions);
+					if (!cache) {
+						return run();
+					}
+					const {
+						retry: _retry,
+						priority: _priority,
+						...nativePromptOptions
+					} = callOptions;
+					return cache.wrap(
+						promptCacheKey(
+							expectedInputs,
+							expectedOutputs,
+							text,
+							nativePromptOptions,
+							sessionOptions,
+						),
+						cacheMode,
+						run,
+					);
+				},
+				promptWithMedia: (parts, timeout, promptOptions, sessionOptions) =>
+					toMediaPrompt(
+						parts,
+						sessionOptions?.expectedInputs ?? expectedInputs,
+					).asyncAndThen((input) =>
+						runPrompt(input, timeout, promptOptions, sessionOptions),
+					),
+				promptStreaming: (
+					input,
+					timeout,
+					promptOptions,
+					promptSessionOptions,
+				) => {
+					const [text, sessionOptions] = resolvePrompt(
+						input,
+						promptSessionOptions,
+					);
+					const { priority, ...nativePromptOptions } = promptOptions ?? {};
+					return runScheduledStream(
+						options?.scheduler,
+						{ priority, signal: nativePromptOptions.signal },
+						() =>
+							promptStreaming(
+								acquireSession,
+								text,
+								timeout,
+								nativePromptOptions,
+								sessionOptions,
+							),
+					);
+				},
+				promptMany: (texts, batchOptions) =>
+					runBatch(texts, batchOptions, "LanguageModel", (text) =>
+						instance.prompt(
+							text,
+							batchOptions?.timeout,
+							{ ...batchOptions?.promptOptions, signal: batchOptions?.signal },
+							batchOptions?.sessionOptions,
+						),
+					),
+				promptJson: (text, schema, promptJsonOptions) => {
+					const scheduled = scheduleSessionCalls({
+						priority: promptJsonOptions?.priority,
+						signal: promptJsonOptions?.promptOptions?.signal,
+					});
+					return promptJson(
+						scheduled.acquire,
 						text,
-						timeout,
-						promptOptions,
-						sessionOptions,
+						schema,
+						scheduled.call,
+						promptJsonOptions,
+					);
+				},
+				runWithTools: (text, tools, runOptions) => {
+					const scheduled = scheduleSessionCalls({
+						priority: runOptions?.priority,
+						signal: runOptions?.promptOptions?.signal,
+					});
+					return runWithTools(
+						scheduled.acquire,
+						text,
+						tools,
+						scheduled.call,
+						runOptions,
+					);
+				},
+				createSession: (sessionOptions, callOptions) =>
+					withRetry(
+						resolveRetryPolicy(options?.retry, callOptions?.retry),
+						sessionOptions?.signal,
+						() =>
+							runScheduled(
+								options?.scheduler,
+								{
+									priority: callOptions?.priority,
+									signal: sessionOptions?.signal,
+								},
+								() => openSession(sessionOptions),
+							),
 					),
-				createSession: (sessionOptions) =>
-					createSession(expectedInputs, expectedOutputs, sessionOptions),
-				withSession: (callback, sessionOptions) =>
-					withSession(
-						expectedInputs,
-						expectedOutputs,
-						callback,
-						sessionOptions,
+				createConversation: (conversationOptions) =>
+					createConversation(
+						openSession,
+						options?.scheduler,
+						conversationOptions?.systemPrompt !== undefined
+							? [{ role: "system", content: conversationOptions.systemPrompt }]
+							: [],
+						conversationOptions,
 					),
-				checkTokenUsage: (promptText, sessionOptions) =>
-					checkTokenUsage(
-						expectedInputs,
-						expectedOutputs,
+				restoreConversation: (snapshot, conversationOptions) =>
+					parseConversationSnapshot(snapshot).map((parsed) =>
+						createConversation(
+							openSession,
+							options?.scheduler,
+							parsed.messages,
+							conversationOptions,
+						),
+					),
+				withSession: (callback, sessionOptions, callOptions) => {
+					const scheduled = scheduleSessionCalls({
+						priority: callOptions?.priority,
+						signal: sessionOptions?.signal,
+					});
+					return withSession(
+						scheduled.acquire,
+						(session) =>
+							callback(
+								options?.scheduler
+									? scheduledSession(session, scheduled.call)
+									: session,
+							),
+						sessionOptions,
+					);
+				},
+				checkTokenUsage: (promptText, sessionOptions, callOptions) => {
+					const scheduled = scheduleSessionCalls({
+						priority: callOptions?.priority,
+						signal: sessionOptions?.signal,
+					});
+					return checkTokenUsage(
+						scheduled.acquire,
 						promptText,
+						scheduled.call,
 						sessionOptions,
-					),
+					);
+				},
+				dispose: () => pool?.dispose(),
 			};
 
 			return ok(instance);
 		})(),
 	);
+
+	return initialized.map(init.succeeded).mapErr(init.failed);
 }
 
 /** @deprecated Use initLanguageModel instead */
@@ -125,9 +343,9 @@ function createSession(
 	expectedInputs: LanguageModelExpected[],
 	expectedOutputs: LanguageModelExpected[],
 	options?: LanguageModelCreateOptions,
-): ResultAsync<LanguageModel, Error> {
+): ResultAsync<LanguageModel, ChromiumAIError> {
 	return new ResultAsync(
-		(async () => {
+		(async (): Promise<Result<LanguageModel, ChromiumAIError>> => {
 			try {
 				const mergedOptions: LanguageModelCreateOptions = {
 					...options,
@@ -145,8 +363,14 @@ function createSession(
 				return ok(session);
 			} catch (error) {
 				return err(
-					new Error(
-						`Failed to create AI session: ${error instanceof Error ? error.message : "Unknown error"}`,
+					toChromiumAIError(
+						error,
+						"LanguageModel",
+						(message, details) =>
+							new SessionCreateFailedError(
+								`Failed to create AI session: ${message}`,
+								details,
+							),
 					),
 				);
 			}
@@ -154,40 +378,167 @@ function createSession(
 	);
 }
 
-function withSession<T>(
+/**
+ * Everything that can change a one-shot prompt's response. Per-call plumbing
+ * (signals, monitors) is left out; prompts with media are not cached.
+ */
+function promptCacheKey(
 	expectedInputs: LanguageModelExpected[],
 	expectedOutputs: LanguageModelExpected[],
-	callback: (session: LanguageModel) => ResultAsync<T, Error>,
+	text: string,
+	promptOptions: LanguageModelPromptOptions,
+	sessionOptions: LanguageModelCreateOptions | undefined,
+): unknown[] | undefined {
+	const {
+		signal: _signal,
+		monitor: _monitor,
+		...createOptions
+	} = sessionOptions ?? {};
+	const { signal: _promptSignal, ...callOptions } = promptOptions;
+	if (
+		createOptions.initialPrompts?.some(
+			(message) => typeof message.content !== "string",
+		)
+	) {
+		return undefined;
+	}
+	return [
+		"LanguageModel.prompt",
+		expectedInputs,
+		expectedOutputs,
+		createOptions,
+		{
+			...callOptions,
+			responseConstraint:
+				callOptions.responseConstraint instanceof RegExp
+					? String(callOptions.responseConstraint)
+					: callOptions.responseConstraint,
+		},
+		text,
+	];
+}
+
+/**
+ * Provides a session for one-shot use: a fresh session, or a clone of a warm
+ * base session when the instance was initialized with `sessionPool`. Either
+ * way the caller owns it and must destroy it.
+ */
+type AcquireSession = (
 	options?: LanguageModelCreateOptions,
-): ResultAsync<T, Error> {
-	return createSession(expectedInputs, expectedOutputs, options).andThen(
-		(session) => {
-			return callback(session)
-				.map((value) => {
-					session.destroy();
-					return value;
-				})
-				.mapErr((error) => {
-					session.destroy();
-					return error;
-				});
+) => ResultAsync<LanguageModel, ChromiumAIError>;
+
+function withSession<T, E>(
+	acquireSession: AcquireSession,
+	callback: (session: LanguageModel) => ResultAsync<T, E>,
+	options?: LanguageModelCreateOptions,
+): ResultAsync<T, E | ChromiumAIError> {
+	return acquireSession(options).andThen((session) => {
+		return callback(session)
+			.map((value) => {
+				session.destroy();
+				return value;
+			})
+			.mapErr((error) => {
+				session.destroy();
+				return error;
+			});
+	});
+}
+
+/** Session methods that run a native call and return a Promise */
+const SCHEDULED_SESSION_METHODS: ReadonlySet<PropertyKey> = new Set([
+	"prompt",
+	"append",
+	"measureContextUsage",
+	"clone",
+]);
+
+/**
+ * A view of `session` whose native calls each wait for their own slot, so a
+ * `withSession()` callback holds none between calls.
+ */
+function scheduledSession(
+	session: LanguageModel,
+	scheduled: ScheduledCall,
+): LanguageModel {
+	return new Proxy(session, {
+		get: (target, property) => {
+			const value: unknown = Reflect.get(target, property, target);
+			if (typeof value !== "function") {
+				return value;
+			}
+			if (SCHEDULED_SESSION_METHODS.has(property)) {
+				return (...args: unknown[]) =>
+					scheduled(() => value.apply(target, args));
+			}
+			if (property === "promptStreaming") {
+				return (...args: unknown[]) =>
+					scheduledStream(scheduled, () => value.apply(target, args));
+			}
+			return value.bind(target);
 		},
-	);
+	});
+}
+
+/** Holds a slot from when the stream is opened until it ends or is cancelled. */
+function scheduledStream(
+	scheduled: ScheduledCall,
+	open: () => ReadableStream<string>,
+): ReadableStream<string> {
+	let reader: ReadableStreamDefaultReader<string> | undefined;
+	let finish = () => {};
+	return new ReadableStream<string>({
+		start: () =>
+			new Promise<void>((started, failed) => {
+				scheduled(
+					() =>
+						new Promise<void>((finished) => {
+							finish = finished;
+							try {
+								reader = open().getReader();
+								started();
+							} catch (error) {
+								finished();
+								failed(error);
+							}
+						}),
+				).catch(failed);
+			}),
+		pull: async (controller) => {
+			try {
+				const chunk = await reader?.read();
+				if (!chunk || chunk.done) {
+					finish();
+					controller.close();
+				} else {
+					controller.enqueue(chunk.value);
+				}
+			} catch (error) {
+				finish();
+				throw error;
+			}
+		},
+		cancel: async (reason) => {
+			finish();
+			await reader?.cancel(reason);
+		},
+	});
 }
 
 function checkTokenUsage(
-	expectedInputs: LanguageModelExpected[],
-	expectedOutputs: LanguageModelExpected[],
+	acquireSession: AcquireSession,
 	promptText: string,
+	scheduled: ScheduledCall,
 	sessionOptions?: LanguageModelCreateOptions,
-): ResultAsync<TokenUsageInfo, Error> {
+): ResultAsync<TokenUsageInfo, ChromiumAIError> {
 	return withSession(
-		expectedInputs,
-		expectedOutputs,
+		acquireSession,
 		(session) => {
-			return ResultAsync.fromSafePromise(
+			return ResultAsync.fromPromise(
 				(async () => {
-					const promptTokens = await session.measureContextUsage(promptText);
+					const promptTokens = await scheduled(() =>
+						session.measureContextUsage(promptText),
+					);
 					const maxTokens = session.contextWindow || 0;
 					const tokensSoFar = session.contextUsage || 0;
 					const tokensAvailable = maxTokens - tokensSoFar;
@@ -200,6 +551,16 @@ function checkTokenUsage(
 						willFit: promptTokens <= tokensAvailable,
 					};
 				})(),
+				(error) =>
+					toChromiumAIError(
+						error,
+						"LanguageModel",
+						(message, details) =>
+							new OperationFailedError(
+								`Failed to measure token usage: ${message}`,
+								details,
+							),
+					),
 			);
 		},
 		sessionOptions,
@@ -207,63 +568,143 @@ function checkTokenUsage(
 }
 
 function prompt(
-	expectedInputs: LanguageModelExpected[],
-	expectedOutputs: LanguageModelExpected[],
-	text: string,
+	acquireSession: AcquireSession,
+	input: LanguageModelPrompt,
 	timeout?: number,
 	promptOptions?: LanguageModelPromptOptions,
 	sessionOptions?: LanguageModelCreateOptions,
-): ResultAsync<string, Error> {
+): ResultAsync<string, ChromiumAIError> {
 	return withSession(
-		expectedInputs,
-		expectedOutputs,
+		acquireSession,
 		(session) => {
-			let timeoutId: ReturnType<typeof setTimeout> | null = null;
+			const prepared = withPromptTimeout(timeout, promptOptions);
 
 			return ResultAsync.fromPromise(
 				(async () => {
 					try {
-						let finalPromptOptions = promptOptions || {};
-						if (timeout || finalPromptOptions.signal) {
-							const signals: AbortSignal[] = [];
+						return await session.prompt(input, prepared.promptOptions);
+					} finally {
+						prepared.clear();
+					}
+				})(),
+				prepared.toError,
+			);
+		},
+		sessionOptions,
+	);
+}
 
-							if (finalPromptOptions.signal) {
-								signals.push(finalPromptOptions.signal);
-							}
+/**
+ * Streams a one-shot prompt. The session is created lazily on first iteration
+ * and destroyed when the stream completes, errors, or the consumer stops early.
+ * The timeout covers the whole stream, not each chunk.
+ */
+async function* promptStreaming(
+	acquireSession: AcquireSession,
+	text: string,
+	timeout?: number,
+	promptOptions?: LanguageModelPromptOptions,
+	sessionOptions?: LanguageModelCreateOptions,
+): AsyncGenerator<Result<string, ChromiumAIError>, void, undefined> {
+	const sessionResult = await acquireSession(sessionOptions);
+	if (sessionResult.isErr()) {
+		yield err(sessionResult.error);
+		return;
+	}
 
-							if (timeout) {
-								const timeoutController = new AbortController();
-								signals.push(timeoutController.signal);
-								timeoutId = setTimeout(
-									() => timeoutController.abort(),
-									timeout,
-								);
-							}
+	const session = sessionResult.value;
+	const prepared = withPromptTimeout(timeout, promptOptions);
+
+	try {
+		yield* iterateStream(
+			() => session.promptStreaming(text, prepared.promptOptions),
+			prepared.toError,
+		);
+	} finally {
+		prepared.clear();
+		session.destroy();
+	}
+}
+
+function parseAndValidate(response: string, schema: JsonSchema): string[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(response);
+	} catch (error) {
+		return [
+			`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+		];
+	}
+	return validateJsonSchema(parsed, schema);
+}
 
-							if (signals.length > 1 && AbortSignal.any) {
-								finalPromptOptions = {
-									...finalPromptOptions,
-									signal: AbortSignal.any(signals),
-								};
-							} else if (signals.length === 1) {
-								finalPromptOptions = {
-									...finalPromptOptions,
-									signal: signals[0],
-								};
+function buildRepairPrompt(issues: string[]): string {
+	return [
+		"Your previous response did not match the required JSON schema:",
+		...issues.map((issue) => `- ${issue}`),
+		"Respond again with only the corrected JSON.",
+	].join("\n");
+}
+
+/**
+ * Prompts with the schema as the response constraint, then parses and validates
+ * the result. Repair attempts reuse the same session so the model sees its
+ * previous answer alongside the reported issues.
+ */
+function promptJson<T>(
+	acquireSession: AcquireSession,
+	text: string,
+	schema: JsonSchema,
+	scheduled: ScheduledCall,
+	options?: PromptJsonOptions,
+): ResultAsync<T, ChromiumAIError> {
+	const maxRepairAttempts = options?.maxRepairAttempts ?? 2;
+
+	return withSession(
+		acquireSession,
+		(session) =>
+			ResultAsync.fromPromise(
+				(async () => {
+					let input = text;
+					let lastResponse = "";
+					let issues: string[] = [];
+
+					for (let attempt = 0; attempt <= maxRepairAttempts; attempt++) {
+						lastResponse = await scheduled(async () => {
+							const prepared = withPromptTimeout(options?.timeout, {
+								...options?.promptOptions,
+								responseConstraint: schema,
+							});
+							try {
+								return await session.prompt(input, prepared.promptOptions);
+							} catch (error) {
+								throw prepared.toError(error);
+							} finally {
+								prepared.clear();
 							}
-						}
+						});
 
-						const response = await session.prompt(text, finalPromptOptions);
-						return response;
-					} finally {
-						if (timeoutId) {
-							clearTimeout(timeoutId);
+						issues = parseAndValidate(lastResponse, schema);
+						if (issues.length === 0) {
+							return JSON.parse(lastResponse) as T;
 						}
+						input = buildRepairPrompt(issues);
 					}
+
+					throw new StructuredOutputError(
+						maxRepairAttempts + 1,
+						lastResponse,
+						issues,
+					);
 				})(),
-				(error) => (error instanceof Error ? error : new Error(String(error))),
-			);
-		},
-		sessionOptions,
+				(error) =>
+					toChromiumAIError(
+						error,
+						"LanguageModel",
+						(message, details) =>
+							new OperationFailedError(`Prompt failed: ${message}`, details),
+					),
+			),
+		options?.sessionOptions,
 	);
 }
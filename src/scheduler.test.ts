@@ -0,0 +1,296 @@
+import { errAsync, okAsync, ResultAsync } from "neverthrow";
+import { afterEach, describe, expect, it } from "vitest";
+import { AbortedError } from "./errors";
+import { initLanguageModel } from "./safe";
+import { createScheduler, type SchedulerState } from "./scheduler";
+import { initSummarizer } from "./summarizer-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslator } from "./translator-safe";
+
+let fakes: ChromiumAIFakes | undefined;
+
+afterEach(() => {
+	fakes?.uninstall();
+	fakes = undefined;
+});
+
+/** A task that stays running until `finish()` is called. */
+function deferredTask(log: string[], name: string) {
+	let finish = () => {};
+	const task = () => {
+		log.push(name);
+		return ResultAsync.fromSafePromise(
+			new Promise<string>((resolve) => {
+				finish = () => resolve(name);
+			}),
+		);
+	};
+	return { task, finish: () => finish() };
+}
+
+/** Lets queued tasks start. */
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createScheduler", () => {
+	it("runs at most `concurrency` tasks at once", async () => {
+		const scheduler = createScheduler({ concurrency: 2 });
+		const log: string[] = [];
+		const tasks = ["a", "b", "c"].map((name) => deferredTask(log, name));
+
+		const results = tasks.map(({ task }) => scheduler.run(task));
+		await tick();
+
+		expect(log).toEqual(["a", "b"]);
+		expect(scheduler.getState()).toEqual({
+			running: 2,
+			queued: { interactive: 1, background: 0 },
+		});
+
+		tasks[0]?.finish();
+		await results[0];
+		await tick();
+		expect(log).toEqual(["a", "b", "c"]);
+
+		tasks[1]?.finish();
+		tasks[2]?.finish();
+		await Promise.all(results);
+		expect(scheduler.getState().running).toBe(0);
+	});
+
+	it("starts interactive requests before background ones", async () => {
+		const scheduler = createScheduler();
+		const log: string[] = [];
+		const blocker = deferredTask(log, "blocker");
+		const blocked = scheduler.run(blocker.task);
+
+		const background = scheduler.run(() => okAsync(log.push("background")), {
+			priority: "background",
+		});
+		const interactive = scheduler.run(() => okAsync(log.push("interactive")));
+		await tick();
+		blocker.finish();
+		await Promise.all([blocked, background, interactive]);
+
+		expect(log).toEqual(["blocker", "interactive", "background"]);
+	});
+
+	it("removes a queued request when its signal aborts", async () => {
+		const scheduler = createScheduler();
+		const log: string[] = [];
+		const blocker = deferredTask(log, "blocker");
+		const blocked = scheduler.run(blocker.task);
+		const controller = new AbortController();
+
+		const cancelled = scheduler.run(() => okAsync(log.push("cancelled")), {
+			signal: controller.signal,
+		});
+		controller.abort();
+		const error = (await cancelled)._unsafeUnwrapErr();
+		blocker.finish();
+		await blocked;
+
+		expect(error.kind).toBe("Aborted");
+		expect(log).toEqual(["blocker"]);
+		expect(scheduler.getState().queued.interactive).toBe(0);
+	});
+
+	it("releases the slot when a task fails", async () => {
+		const scheduler = createScheduler();
+
+		await scheduler
+			.run(() => errAsync(new AbortedError("Stopped")))
+			.orElse(() => okAsync(undefined));
+
+		expect(scheduler.getState().running).toBe(0);
+	});
+
+	it("notifies subscribers of every change", async () => {
+		const scheduler = createScheduler();
+		const states: SchedulerState[] = [];
+		const unsubscribe = scheduler.subscribe((state) => states.push(state));
+
+		await scheduler.run(() => okAsync("done"));
+		unsubscribe();
+		await scheduler.run(() => okAsync("done"));
+
+		expect(states.map((state) => state.running)).toEqual([1, 0]);
+	});
+});
+
+describe("scheduled instances", () => {
+	it("shares one limit between a language model and a summarizer", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { latency: 5 },
+			summarizer: { latency: 5 },
+		});
+		const scheduler = createScheduler({ concurrency: 1 });
+		let maxRunning = 0;
+		scheduler.subscribe((state) => {
+			maxRunning = Math.max(maxRunning, state.running);
+		});
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+		const summarizer = (await initSummarizer({ scheduler }))._unsafeUnwrap();
+
+		const results = await Promise.all([
+			ai.prompt("one"),
+			ai.prompt("two"),
+			summarizer.summarize("three"),
+		]);
+
+		expect(results.every((result) => result.isOk())).toBe(true);
+		expect(maxRunning).toBe(1);
+	});
+
+	it("limits every kind of model call, not just prompts", async () => {
+		let running = 0;
+		let peak = 0;
+		const track = async <T>(output: T) => {
+			running++;
+			peak = Math.max(peak, running);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+			running--;
+			return output;
+		};
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: () => track('["red"]') },
+			summarizer: { respond: () => track("Short") },
+			translator: { respond: (input) => track(input) },
+		});
+		const scheduler = createScheduler({ concurrency: 1 });
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+		const summarizer = (await initSummarizer({ scheduler }))._unsafeUnwrap();
+		const translator = (
+			await initTranslator({
+				sourceLanguage: "en",
+				targetLanguage: "es",
+				scheduler,
+			})
+		)._unsafeUnwrap();
+
+		const results = await Promise.all([
+			ai.promptJson("List colors", { type: "array" }),
+			ai.withSession((session) =>
+				ResultAsync.fromSafePromise(session.prompt("Hi")),
+			),
+			ai.createConversation().send("Hello"),
+			summarizer.summarizeLong("A long article"),
+			translator.translateDocument("One.\n\nTwo.", { priority: "background" }),
+			ai.prompt("Hi"),
+		]);
+
+		expect(results.every((result) => result.isOk())).toBe(true);
+		expect(peak).toBe(1);
+	});
+
+	it("lets a tool handler prompt under the default scheduler", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					if (input === "Forecast for Paris?") {
+						return "Sunny";
+					}
+					return String(input).startsWith("Result of")
+						? JSON.stringify({ answer: "It is sunny" })
+						: JSON.stringify({ tool: "forecast", arguments: {} });
+				},
+			},
+		});
+		const scheduler = createScheduler();
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+
+		const result = await ai.runWithTools("Weather?", [
+			{
+				name: "forecast",
+				description: "Asks the model for a forecast.",
+				parameters: { type: "object", properties: {} },
+				handler: async () =>
+					(await ai.prompt("Forecast for Paris?"))._unsafeUnwrap(),
+			},
+		]);
+
+		expect(result._unsafeUnwrap().trace[0]?.result).toBe("Sunny");
+		expect(scheduler.getState().running).toBe(0);
+	});
+
+	it("releases the slot while a withSession callback runs", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: (input) => `re: ${String(input)}` },
+		});
+		const scheduler = createScheduler();
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+
+		const result = await ai.withSession(() => ai.prompt("Hi"));
+
+		expect(result._unsafeUnwrap()).toBe("re: Hi");
+	});
+
+	it("holds a slot while a withSession stream is read", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: "one two three" },
+		});
+		const scheduler = createScheduler();
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+		const running: number[] = [];
+
+		const result = await ai.withSession((session) =>
+			ResultAsync.fromSafePromise(
+				(async () => {
+					const reader = session.promptStreaming("Hi").getReader();
+					let text = "";
+					for (;;) {
+						const chunk = await reader.read();
+						if (chunk.done) {
+							return text;
+						}
+						running.push(scheduler.getState().running);
+						text += chunk.value;
+					}
+				})(),
+			),
+		);
+
+		expect(result._unsafeUnwrap()).toBe("one two three");
+		expect(running.length).toBeGreaterThan(0);
+		expect(running.every((count) => count === 1)).toBe(true);
+		expect(scheduler.getState().running).toBe(0);
+	});
+
+	it("holds the slot until a stream ends", async () => {
+		fakes = installChromiumAIFakes();
+		const scheduler = createScheduler();
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+		const running: number[] = [];
+
+		for await (const chunk of ai.promptStreaming("Hello")) {
+			chunk._unsafeUnwrap();
+			running.push(scheduler.getState().running);
+		}
+
+		expect(running.length).toBeGreaterThan(0);
+		expect(running.every((count) => count === 1)).toBe(true);
+		expect(scheduler.getState().running).toBe(0);
+	});
+
+	it("orders prompts by priority", async () => {
+		const order: string[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				latency: 5,
+				respond: (input) => {
+					order.push(String(input));
+					return "ok";
+				},
+			},
+		});
+		const scheduler = createScheduler();
+		const ai = (await initLanguageModel({ scheduler }))._unsafeUnwrap();
+
+		await Promise.all([
+			ai.prompt("first"),
+			ai.prompt("later", undefined, { priority: "background" }),
+			ai.prompt("urgent"),
+		]);
+
+		expect(order).toEqual(["first", "urgent", "later"]);
+	});
+});
@@ -0,0 +1,251 @@
+import { err, errAsync, ok, type Result, ResultAsync } from "neverthrow";
+import { AbortedError, type ChromiumAIError } from "./errors";
+
+/**
+ * "interactive" requests are started before any queued "background" request.
+ * Requests of the same priority start in the order they were made.
+ */
+export type SchedulerPriority = "interactive" | "background";
+
+export interface SchedulerOptions {
+	/** Requests allowed to run at once. Defaults to 1. */
+	concurrency?: number;
+}
+
+/**
+ * Per-call scheduling control. Only used by instances created with a
+ * `scheduler`.
+ */
+export interface ScheduleCallOptions {
+	/** Defaults to "interactive" */
+	priority?: SchedulerPriority;
+}
+
+export interface ScheduleOptions extends ScheduleCallOptions {
+	/** Aborting removes a queued request, or is passed on to a running one */
+	signal?: AbortSignal;
+}
+
+/**
+ * A snapshot of the scheduler's load, e.g. to show "3 requests waiting".
+ */
+export interface SchedulerState {
+	/** Requests currently holding a slot */
+	running: number;
+	/** Requests waiting for a slot, by priority */
+	queued: Record<SchedulerPriority, number>;
+}
+
+/**
+ * Limits how many model requests run at once across every instance it is
+ * passed to. Returned by `createScheduler()`.
+ */
+export interface Scheduler {
+	/** Runs `task` once a slot is free and releases the slot when it settles */
+	run<T, E = ChromiumAIError>(
+		task: () => ResultAsync<T, E>,
+		options?: ScheduleOptions,
+	): ResultAsync<T, E | ChromiumAIError>;
+	/**
+	 * Waits for a slot and returns the function that releases it, for work
+	 * that outlives a single promise such as a stream.
+	 */
+	acquire(options?: ScheduleOptions): ResultAsync<() => void, ChromiumAIError>;
+	getState(): SchedulerState;
+	/** Calls `listener` whenever the state changes. Returns an unsubscribe function. */
+	subscribe(listener: (state: SchedulerState) => void): () => void;
+}
+
+interface QueuedRequest {
+	start: () => void;
+}
+
+function cancelled(signal: AbortSignal): AbortedError {
+	return new AbortedError("Request was cancelled before it started", {
+		cause: signal.reason,
+	});
+}
+
+/**
+ * Creates a scheduler. Pass the same scheduler to several init functions to
+ * share its concurrency limit between them.
+ *
+ * @example
+ * const scheduler = createScheduler({ concurrency: 1 });
+ * const ai = await initLanguageModel({ scheduler });
+ * const summarizer = await initSummarizer({ scheduler });
+ *
+ * summarizer.summarize(article, { priority: "background" });
+ * ai.prompt("Answer the user first"); // starts before the summary
+ */
+export function createScheduler(options?: SchedulerOptions): Scheduler {
+	const concurrency = Math.max(options?.concurrency ?? 1, 1);
+	const queues: Record<SchedulerPriority, QueuedRequest[]> = {
+		interactive: [],
+		background: [],
+	};
+	const listeners = new Set<(state: SchedulerState) => void>();
+	let running = 0;
+
+	const getState = (): SchedulerState => ({
+		running,
+		queued: {
+			interactive: queues.interactive.length,
+			background: queues.background.length,
+		},
+	});
+
+	const notify = () => {
+		const state = getState();
+		for (const listener of listeners) {
+			listener(state);
+		}
+	};
+
+	const startNext = () => {
+		while (running < concurrency) {
+			const next = queues.interactive.shift() ?? queues.background.shift();
+			if (!next) {
+				return;
+			}
+			running++;
+			next.start();
+		}
+	};
+
+	const release = () => {
+		running--;
+		startNext();
+		notify();
+	};
+
+	const acquire = (
+		scheduleOptions?: ScheduleOptions,
+	): ResultAsync<() => void, ChromiumAIError> => {
+		const signal = scheduleOptions?.signal;
+		if (signal?.aborted) {
+			return errAsync(cancelled(signal));
+		}
+
+		const queue = queues[scheduleOptions?.priority ?? "interactive"];
+		return new ResultAsync(
+			new Promise<Result<() => void, ChromiumAIError>>((resolve) => {
+				const onAbort = () => {
+					const index = queue.indexOf(request);
+					if (index !== -1) {
+						queue.splice(index, 1);
+						notify();
+						resolve(err(cancelled(signal as AbortSignal)));
+					}
+				};
+				const request: QueuedRequest = {
+					start: () => {
+						signal?.removeEventListener("abort", onAbort);
+						let released = false;
+						resolve(
+							ok(() => {
+								if (!released) {
+									released = true;
+									release();
+								}
+							}),
+						);
+					},
+				};
+				signal?.addEventListener("abort", onAbort, { once: true });
+				queue.push(request);
+				startNext();
+				notify();
+			}),
+		);
+	};
+
+	return {
+		run: (task, scheduleOptions) =>
+			acquire(scheduleOptions).andThen((releaseSlot) =>
+				task()
+					.map((value) => {
+						releaseSlot();
+						return value;
+					})
+					.mapErr((error) => {
+						releaseSlot();
+						return error;
+					}),
+			),
+		acquire,
+		getState,
+		subscribe: (listener) => {
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+	};
+}
+
+/**
+ * Runs `task` through `scheduler` if the instance has one, otherwise right away.
+ */
+export function runScheduled<T, E = ChromiumAIError>(
+	scheduler: Scheduler | undefined,
+	scheduleOptions: ScheduleOptions,
+	task: () => ResultAsync<T, E>,
+): ResultAsync<T, E | ChromiumAIError> {
+	return scheduler ? scheduler.run(task, scheduleOptions) : task();
+}
+
+/** Runs one native call, waiting for a scheduler slot first if there is one */
+export type ScheduledCall = <T>(call: () => Promise<T>) => Promise<T>;
+
+/**
+ * Returns a function that runs each native call it is given in its own slot
+ * of `scheduler`, for work made of many calls such as a long document. Other
+ * requests can start between the calls, and the work never holds more slots
+ * than the limit allows.
+ */
+export function scheduleCalls(
+	scheduler: Scheduler | undefined,
+	scheduleOptions: ScheduleOptions,
+): ScheduledCall {
+	return async <T>(call: () => Promise<T>): Promise<T> => {
+		if (!scheduler) {
+			return call();
+		}
+		const slot = await scheduler.acquire(scheduleOptions);
+		if (slot.isErr()) {
+			throw slot.error;
+		}
+		try {
+			return await call();
+		} finally {
+			slot.value();
+		}
+	};
+}
+
+/**
+ * Streams through `scheduler` if the instance has one: the slot is taken when
+ * iteration starts and released when the stream ends or the consumer stops.
+ */
+export function runScheduledStream<T>(
+	scheduler: Scheduler | undefined,
+	scheduleOptions: ScheduleOptions,
+	stream: () => AsyncIterable<Result<T, ChromiumAIError>>,
+): AsyncIterable<Result<T, ChromiumAIError>> {
+	if (!scheduler) {
+		return stream();
+	}
+	return (async function* () {
+		const slot = await scheduler.acquire(scheduleOptions);
+		if (slot.isErr()) {
+			yield err(slot.error);
+			return;
+		}
+		try {
+			yield* stream();
+		} finally {
+			slot.value();
+		}
+	})();
+}
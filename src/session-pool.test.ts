@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initLanguageModel } from "./index";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+const pirate: LanguageModelCreateOptions = {
+	initialPrompts: [{ role: "system", content: "You are a pirate" }],
+};
+
+describe("sessionPool", () => {
+	it("serves repeated prompts from clones of one base session", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Arr" } });
+		const ai = await initLanguageModel({ sessionPool: {} });
+
+		await ai.prompt("Hello", undefined, undefined, pirate);
+		await ai.prompt("Again", undefined, undefined, pirate);
+		await ai
+			.promptJson(
+				"Count",
+				{ type: "string" },
+				{
+					sessionOptions: pirate,
+				},
+			)
+			.catch(() => undefined);
+
+		const [base, ...clones] = fakes.languageModel.sessions;
+		expect(fakes.languageModel.createCalls).toHaveLength(1);
+		expect(base?.destroyed).toBe(false);
+		expect(base?.history).toEqual(pirate.initialPrompts);
+		expect(clones).toHaveLength(3);
+		expect(clones.every((clone) => clone.destroyed)).toBe(true);
+		expect(clones[0]?.history[0]).toEqual(pirate.initialPrompts?.[0]);
+	});
+
+	it("keys base sessions by value and evicts the least recently used", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel({ sessionPool: { maxSize: 1 } });
+
+		await ai.prompt("Hello", undefined, undefined, {
+			initialPrompts: [{ role: "system", content: "You are a pirate" }],
+		});
+		await ai.prompt("Hello", undefined, undefined, pirate);
+		await ai.prompt("Hello");
+
+		expect(fakes.languageModel.createCalls).toEqual([
+			expect.objectContaining(pirate),
+			expect.not.objectContaining(pirate),
+		]);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("keeps one base session when maxSize is below 1", async () => {
+		fakes = installChromiumAIFakes({ languageModel: { respond: "Arr" } });
+		const ai = await initLanguageModel({ sessionPool: { maxSize: 0 } });
+
+		await expect(
+			ai.prompt("Hello", undefined, undefined, pirate),
+		).resolves.toBe("Arr");
+		await expect(
+			ai.prompt("Again", undefined, undefined, pirate),
+		).resolves.toBe("Arr");
+
+		expect(fakes.languageModel.createCalls).toHaveLength(1);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(false);
+	});
+
+	it("destroys a base session after the idle timeout", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel({ sessionPool: { idleTimeout: 10 } });
+
+		await ai.prompt("Hello");
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(false);
+		await new Promise((resolve) => setTimeout(resolve, 30));
+
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+		await ai.prompt("Hello");
+		expect(fakes.languageModel.createCalls).toHaveLength(2);
+	});
+
+	it("bypasses the pool for options with a signal", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel({ sessionPool: {} });
+
+		await ai.prompt("Hello", undefined, undefined, {
+			signal: new AbortController().signal,
+		});
+
+		expect(fakes.languageModel.sessions).toHaveLength(1);
+		expect(fakes.languageModel.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("retries a base session that failed to create", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { createError: new Error("Busy") },
+		});
+		const ai = await initLanguageModel({ sessionPool: {} });
+
+		await expect(ai.prompt("Hello")).rejects.toMatchObject({
+			kind: "SessionCreateFailed",
+		});
+		fakes.languageModel.createError = undefined;
+
+		await expect(ai.prompt("Hello")).resolves.toBe("Echo: Hello");
+	});
+
+	it("destroys every base session on dispose", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = await initLanguageModel({ sessionPool: {} });
+
+		await ai.prompt("Hello");
+		await ai.prompt("Hello", undefined, undefined, pirate);
+		ai.dispose();
+		await Promise.resolve();
+
+		expect(
+			fakes.languageModel.sessions.every((session) => session.destroyed),
+		).toBe(true);
+	});
+});
@@ -0,0 +1,153 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import {
+	type ChromiumAIError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import { createLru } from "./lru";
+import type { SessionPoolOptions } from "./types";
+import { stableStringify } from "./utils";
+
+export interface SessionPool {
+	/** Returns a clone of the warm base session for `options`, creating the base if needed. */
+	acquire(
+		options?: LanguageModelCreateOptions,
+	): ResultAsync<LanguageModel, ChromiumAIError>;
+	/** Number of base sessions currently held */
+	readonly size: number;
+	dispose(): void;
+}
+
+interface PoolEntry {
+	base: Promise<Result<LanguageModel, ChromiumAIError>>;
+	idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Serializes create options into a pool key with sorted object keys.
+ * Returns undefined for options that cannot be compared by value: a signal or
+ * monitor belongs to a single call, and media in `initialPrompts` would be
+ * lost by JSON serialization.
+ */
+function poolKey(options: LanguageModelCreateOptions = {}): string | undefined {
+	if (options.signal || options.monitor) {
+		return undefined;
+	}
+	const hasMedia = options.initialPrompts?.some(
+		(message) => typeof message.content !== "string",
+	);
+	if (hasMedia) {
+		return undefined;
+	}
+	return stableStringify(options);
+}
+
+/**
+ * Keeps one base session per distinct set of create options and serves each
+ * request from `clone()`, so the system prompt is processed once per base
+ * instead of once per call. Bases are evicted least recently used first when
+ * the pool is full, and after `idleTimeout` without use.
+ * Options that cannot be keyed bypass the pool and get a fresh session.
+ */
+export function createSessionPool(
+	createSession: (
+		options?: LanguageModelCreateOptions,
+	) => ResultAsync<LanguageModel, ChromiumAIError>,
+	options?: SessionPoolOptions,
+): SessionPool {
+	// Below 1, a new base would be evicted and destroyed before it is cloned
+	const maxSize = Math.max(Math.floor(options?.maxSize ?? 4) || 1, 1);
+	const idleTimeout = options?.idleTimeout ?? 60_000;
+	const entries = createLru<string, PoolEntry>(maxSize, release);
+
+	function release(entry: PoolEntry): void {
+		if (entry.idleTimer) {
+			clearTimeout(entry.idleTimer);
+		}
+		void entry.base.then((base) => {
+			if (base.isOk()) {
+				base.value.destroy();
+			}
+		});
+	}
+
+	/** Removes `entry` if it is still the pool's base for `key` */
+	function evict(key: string, entry: PoolEntry): void {
+		if (entries.peek(key) === entry) {
+			entries.delete(key);
+			release(entry);
+		}
+	}
+
+	/** Returns the entry for `key`, creating its base if needed, and restarts its idle timer */
+	function getEntry(
+		key: string,
+		sessionOptions: LanguageModelCreateOptions | undefined,
+	): PoolEntry {
+		let entry = entries.get(key);
+		if (!entry) {
+			entry = {
+				base: Promise.resolve(createSession(sessionOptions)),
+				idleTimer: null,
+			};
+			const created = entry;
+			// A failed base is forgotten so the next call retries.
+			void created.base.then((base) => {
+				if (base.isErr()) {
+					evict(key, created);
+				}
+			});
+		}
+
+		const used = entry;
+		if (used.idleTimer) {
+			clearTimeout(used.idleTimer);
+		}
+		used.idleTimer = setTimeout(() => evict(key, used), idleTimeout);
+		// May evict the least recently used base
+		entries.set(key, used);
+		return used;
+	}
+
+	return {
+		acquire: (sessionOptions) => {
+			const key = poolKey(sessionOptions);
+			if (key === undefined) {
+				return createSession(sessionOptions);
+			}
+
+			return new ResultAsync(
+				(async (): Promise<Result<LanguageModel, ChromiumAIError>> => {
+					const entry = getEntry(key, sessionOptions);
+					const base = await entry.base;
+					if (base.isErr()) {
+						return err(base.error);
+					}
+					try {
+						return ok(await base.value.clone());
+					} catch (error) {
+						// The base may have been destroyed externally; rebuild it next time.
+						evict(key, entry);
+						return err(
+							toChromiumAIError(
+								error,
+								"LanguageModel",
+								(message, details) =>
+									new SessionCreateFailedError(
+										`Failed to clone AI session: ${message}`,
+										details,
+									),
+							),
+						);
+					}
+				})(),
+			);
+		},
+		get size() {
+			return entries.size;
+		},
+		dispose: () => entries.clear(),
+	};
+}
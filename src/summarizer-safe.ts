@@ -1,15 +1,120 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import { errAsync, ResultAsync } from "neverthrow";
-import type { SafeSummarizerInstance } from "./types";
-import { checkAvailability } from "./utils";
+import { runBatch } from "./batch";
+import { createResponseCache } from "./cache";
+import { splitIntoChunks } from "./chunking";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import { resolveRetryPolicy, withRetry } from "./retry";
+import {
+	runScheduled,
+	runScheduledStream,
+	type ScheduledCall,
+	scheduleCalls,
+} from "./scheduler";
+import type {
+	SafeSummarizerInstance,
+	SummarizeLongOptions,
+	SummarizeLongProgress,
+	SummarizerInitOptions,
+} from "./types";
+import {
+	checkAvailability,
+	initFailure,
+	iterateStream,
+	prepareInit,
+} from "./utils";
+
+function summarizeFailure(error: unknown): ChromiumAIError {
+	return toChromiumAIError(
+		error,
+		"Summarizer",
+		(message, details) =>
+			new OperationFailedError(`Summarization failed: ${message}`, details),
+	);
+}
+
+/**
+ * Map-reduce summarization: text over the input quota is split into chunks on
+ * paragraph and sentence boundaries, each chunk is summarized, and the joined
+ * summaries are treated as the next level's input until they fit in one call.
+ */
+async function summarizeLong(
+	summarizer: Summarizer,
+	text: string,
+	scheduled: ScheduledCall,
+	options?: SummarizeLongOptions,
+): Promise<string> {
+	const {
+		onProgress,
+		priority: _priority,
+		...summarizeOptions
+	} = options ?? {};
+	const measure = (input: string) =>
+		scheduled(() => summarizer.measureInputUsage(input, summarizeOptions));
+	const summarize = (input: string) =>
+		scheduled(() => summarizer.summarize(input, summarizeOptions));
+	const report = (progress: SummarizeLongProgress) => {
+		try {
+			onProgress?.(progress);
+		} catch {
+			// A failing callback must not fail the summary
+		}
+	};
+	const fits = async (input: string) =>
+		(await measure(input)) <= summarizer.inputQuota;
+
+	let input = text;
+	let inputTokens = await measure(input);
+
+	for (let level = 0; ; level++) {
+		summarizeOptions.signal?.throwIfAborted();
+
+		if (inputTokens <= summarizer.inputQuota) {
+			const summary = await summarize(input);
+			report({ level, completed: 1, total: 1 });
+			return summary;
+		}
+
+		const chunks = await splitIntoChunks(input, fits);
+		const summaries: string[] = [];
+		for (const chunk of chunks) {
+			summarizeOptions.signal?.throwIfAborted();
+			summaries.push(await summarize(chunk));
+			report({
+				level,
+				completed: summaries.length,
+				total: chunks.length,
+			});
+		}
+
+		const combined = summaries.join("\n\n");
+		const combinedTokens = await measure(combined);
+		// Without this guard, a model that does not shorten its input would recurse forever.
+		if (combinedTokens >= inputTokens) {
+			throw new OperationFailedError(
+				"Summarization failed: chunk summaries were not shorter than their input",
+				{ api: "Summarizer" },
+			);
+		}
+		input = combined;
+		inputTokens = combinedTokens;
+	}
+}
 
 /**
  * Initializes the Summarizer API by checking availability and triggering model download.
- * Returns a safe instance object with `.summarize()` and `.createSession()` methods.
+ * Returns a safe instance object with `.summarize()`, `.summarizeStreaming()`, `.summarizeMany()`,
+ * `.summarizeLong()` and `.createSession()` methods.
  *
- * @param createOptions Optional creation options (type, format, length, sharedContext)
- * @returns A Result containing a SafeSummarizerInstance or an Error
+ * @param createOptions Optional creation options (type, format, length, sharedContext, cache, retry, scheduler)
+ * @returns A Result containing a SafeSummarizerInstance or a ChromiumAIError
  *
  * @example
  * const result = await initSummarizer({ type: "tldr" });
@@ -19,49 +124,148 @@ import { checkAvailability } from "./utils";
  * );
  */
 export function initSummarizer(
-	createOptions?: SummarizerCreateOptions,
-): ResultAsync<SafeSummarizerInstance, Error> {
+	createOptions?: SummarizerInitOptions,
+): ResultAsync<SafeSummarizerInstance, ChromiumAIError> {
+	const {
+		cache: cacheOptions,
+		retry: retryPolicy,
+		scheduler,
+		onProgress,
+		timeout,
+		...nativeOptions
+	} = createOptions ?? {};
+	const cache = cacheOptions ? createResponseCache(cacheOptions) : undefined;
 	// Default outputLanguage to "en" if not specified
 	const mergedOptions: SummarizerCreateOptions = {
 		outputLanguage: "en",
-		...createOptions,
+		...nativeOptions,
 	};
+	const {
+		signal: _signal,
+		monitor: _monitor,
+		...cacheKeyOptions
+	} = mergedOptions;
 
 	if (typeof Summarizer === "undefined") {
 		return errAsync(
-			new Error(
+			new ApiNotPresentError(
 				"Summarizer API is not available in this browser. Ensure you are using Chrome 138+ or a supported Chromium-based browser.",
+				{ api: "Summarizer" },
 			),
 		);
 	}
 
-	return checkAvailability(
+	const init = prepareInit("Summarizer", {
+		...mergedOptions,
+		onProgress,
+		timeout,
+	});
+	const initialized = checkAvailability(
 		() => Summarizer.availability(mergedOptions),
 		"Summarizer",
-	).andThen(() =>
+	).andThen((availability) =>
 		ResultAsync.fromPromise(
 			(async () => {
 				// Create and keep the session alive for reuse
-				const summarizer = await Summarizer.create(mergedOptions);
+				const summarizer = await Summarizer.create({
+					...mergedOptions,
+					...init.createOptions,
+				});
 
 				const instance: SafeSummarizerInstance = {
-					summarize: (text, summarizeOptions) =>
+					summarize: (text, summarizeOptions) => {
+						const {
+							cache: cacheMode,
+							retry,
+							priority,
+							...nativeSummarizeOptions
+						} = summarizeOptions ?? {};
+						const signal = nativeSummarizeOptions.signal;
+						const run = () =>
+							withRetry(resolveRetryPolicy(retryPolicy, retry), signal, () =>
+								runScheduled(scheduler, { priority, signal }, () =>
+									ResultAsync.fromPromise(
+										summarizer.summarize(text, nativeSummarizeOptions),
+										summarizeFailure,
+									),
+								),
+							);
+						return cache
+							? cache.wrap(
+									[
+										"Summarizer.summarize",
+										cacheKeyOptions,
+										nativeSummarizeOptions.context,
+										text,
+									],
+									cacheMode,
+									run,
+								)
+							: run();
+					},
+					summarizeStreaming: (text, summarizeOptions) => {
+						const { priority, ...nativeSummarizeOptions } =
+							summarizeOptions ?? {};
+						return runScheduledStream(
+							scheduler,
+							{ priority, signal: nativeSummarizeOptions.signal },
+							() =>
+								iterateStream(
+									() =>
+										summarizer.summarizeStreaming(text, nativeSummarizeOptions),
+									summarizeFailure,
+								),
+						);
+					},
+					summarizeMany: (texts, batchOptions) => {
+						const {
+							concurrency: _concurrency,
+							onProgress: _onProgress,
+							...summarizeOptions
+						} = batchOptions ?? {};
+						return runBatch(texts, batchOptions, "Summarizer", (text) =>
+							instance.summarize(text, summarizeOptions),
+						);
+					},
+					summarizeLong: (text, summarizeLongOptions) =>
 						ResultAsync.fromPromise(
-							summarizer.summarize(text, summarizeOptions),
-							(error) =>
-								error instanceof Error
-									? error
-									: new Error(`Summarization failed: ${String(error)}`),
+							summarizeLong(
+								summarizer,
+								text,
+								scheduleCalls(scheduler, {
+									priority: summarizeLongOptions?.priority,
+									signal: summarizeLongOptions?.signal,
+								}),
+								summarizeLongOptions,
+							),
+							summarizeFailure,
 						),
-					createSession: () =>
-						ResultAsync.fromPromise(
-							Summarizer.create(mergedOptions),
-							(error) =>
-								error instanceof Error
-									? error
-									: new Error(
-											`Failed to create Summarizer session: ${String(error)}`,
+					createSession: (callOptions) =>
+						withRetry(
+							resolveRetryPolicy(retryPolicy, callOptions?.retry),
+							mergedOptions.signal,
+							() =>
+								runScheduled(
+									scheduler,
+									{
+										priority: callOptions?.priority,
+										signal: mergedOptions.signal,
+									},
+									() =>
+										ResultAsync.fromPromise(
+											Summarizer.create(mergedOptions),
+											(error) =>
+												toChromiumAIError(
+													error,
+													"Summarizer",
+													(message, details) =>
+														new SessionCreateFailedError(
+															`Failed to create Summarizer session: ${message}`,
+															details,
+														),
+												),
 										),
+								),
 						),
 					destroy: () => summarizer.destroy(),
 				};
@@ -69,9 +273,13 @@ export function initSummarizer(
 				return instance;
 			})(),
 			(error) =>
-				error instanceof Error
-					? error
-					: new Error(`Failed to initialize Summarizer: ${String(error)}`),
+				toChromiumAIError(
+					error,
+					"Summarizer",
+					initFailure(availability, "Summarizer"),
+				),
 		),
 	);
+
+	return initialized.map(init.succeeded).mapErr(init.failed);
 }
@@ -0,0 +1,245 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initSummarizer } from "./summarizer";
+import { initSummarizer as safeInitSummarizer } from "./summarizer-safe";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initSummarizer", () => {
+	it("defaults outputLanguage to English", async () => {
+		fakes = installChromiumAIFakes();
+
+		await initSummarizer({ type: "tldr" });
+
+		expect(fakes.summarizer.createCalls[0]).toEqual({
+			outputLanguage: "en",
+			type: "tldr",
+		});
+	});
+
+	it("fails with SessionCreateFailed when create fails for a local model", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: { createError: new Error("Out of memory") },
+		});
+
+		const error = (await safeInitSummarizer())._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("SessionCreateFailed");
+		expect(error.message).toBe(
+			"Failed to initialize Summarizer: Out of memory",
+		);
+	});
+
+	it("reports 1 through onProgress when the model is already available", async () => {
+		fakes = installChromiumAIFakes();
+		const progress: [number, string][] = [];
+
+		await initSummarizer({
+			onProgress: (fraction, api) => progress.push([fraction, api]),
+		});
+
+		expect(progress).toEqual([[1, "Summarizer"]]);
+		expect(fakes.summarizer.createCalls[0]).not.toHaveProperty("onProgress");
+	});
+
+	it("passes per-call options to the native summarizer", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: {
+				respond: (input, _session, options) => `${options?.context}: ${input}`,
+			},
+		});
+		const summarizer = await initSummarizer();
+
+		await expect(
+			summarizer.summarize("Text", { context: "News" }),
+		).resolves.toBe("News: Text");
+	});
+});
+
+describe("summarizeStreaming", () => {
+	it("streams the summary with per-call options", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: {
+				respond: (input, _session, options) =>
+					`${options?.context} summary of ${input}`,
+			},
+		});
+		const summarizer = await initSummarizer();
+
+		const chunks: string[] = [];
+		for await (const chunk of summarizer.summarizeStreaming("the article", {
+			context: "News",
+		})) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.length).toBeGreaterThan(1);
+		expect(chunks.join("")).toBe("News summary of the article");
+	});
+
+	it("yields an error with the same message as summarize", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: {
+				respond: () => {
+					throw new Error("GPU crashed");
+				},
+			},
+		});
+		const summarizer = (await safeInitSummarizer())._unsafeUnwrap();
+
+		const results = [];
+		for await (const result of summarizer.summarizeStreaming("Text")) {
+			results.push(result);
+		}
+		const streamError = results[0]?._unsafeUnwrapErr();
+		const error = (await summarizer.summarize("Text"))._unsafeUnwrapErr();
+
+		expect(results).toHaveLength(1);
+		expect(streamError?.kind).toBe("OperationFailed");
+		expect(streamError?.message).toBe(error.message);
+		expect(error.message).toBe("Summarization failed: GPU crashed");
+	});
+
+	it("stops when the signal aborts", async () => {
+		fakes = installChromiumAIFakes();
+		const summarizer = (await safeInitSummarizer())._unsafeUnwrap();
+		const controller = new AbortController();
+
+		const results = [];
+		for await (const result of summarizer.summarizeStreaming(
+			"one two three four",
+			{ signal: controller.signal },
+		)) {
+			results.push(result);
+			controller.abort();
+		}
+
+		expect(results.at(-1)?._unsafeUnwrapErr().kind).toBe("Aborted");
+	});
+});
+
+describe("summarizeLong", () => {
+	// One token per word, and a quota of ten words per call.
+	const summarizer = {
+		inputQuota: 10,
+		countTokens: (input: string) => input.split(/\s+/).filter(Boolean).length,
+	};
+	const paragraph = (label: string) =>
+		`${label} alpha beta gamma delta epsilon.`;
+
+	it("summarizes text within the quota in one call", async () => {
+		fakes = installChromiumAIFakes({ summarizer });
+		const instance = await initSummarizer();
+		const progress: unknown[] = [];
+
+		await instance.summarizeLong("Short text.", {
+			onProgress: (update) => progress.push(update),
+		});
+
+		expect(progress).toEqual([{ level: 0, completed: 1, total: 1 }]);
+	});
+
+	it("still summarizes when onProgress throws", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: { ...summarizer, respond: "Gist." },
+		});
+		const instance = await initSummarizer();
+
+		const summary = await instance.summarizeLong("Short text.", {
+			onProgress: () => {
+				throw new Error("progress bar is gone");
+			},
+		});
+
+		expect(summary).toBe("Gist.");
+	});
+
+	it("summarizes each chunk and then the combined summaries", async () => {
+		const inputs: string[] = [];
+		fakes = installChromiumAIFakes({
+			summarizer: {
+				...summarizer,
+				respond: (input) => {
+					inputs.push(input);
+					return `Gist ${inputs.length}.`;
+				},
+			},
+		});
+		const instance = await initSummarizer();
+		const progress: unknown[] = [];
+
+		const summary = await instance.summarizeLong(
+			[paragraph("A"), paragraph("B"), paragraph("C")].join("\n\n"),
+			{ onProgress: (update) => progress.push(update) },
+		);
+
+		expect(inputs).toEqual([
+			paragraph("A"),
+			paragraph("B"),
+			paragraph("C"),
+			"Gist 1.\n\nGist 2.\n\nGist 3.",
+		]);
+		expect(summary).toBe("Gist 4.");
+		expect(progress).toEqual([
+			{ level: 0, completed: 1, total: 3 },
+			{ level: 0, completed: 2, total: 3 },
+			{ level: 0, completed: 3, total: 3 },
+			{ level: 1, completed: 1, total: 1 },
+		]);
+	});
+
+	it("recurses while the combined summaries exceed the quota", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: { ...summarizer, respond: "one two three four" },
+		});
+		const instance = await initSummarizer();
+		const levels = new Set<number>();
+
+		const text = Array.from({ length: 6 }, (_, index) =>
+			paragraph(String(index)),
+		).join("\n\n");
+		await instance.summarizeLong(text, {
+			onProgress: (update) => levels.add(update.level),
+		});
+
+		expect([...levels]).toEqual([0, 1, 2, 3]);
+	});
+
+	it("fails instead of looping when summaries do not get shorter", async () => {
+		fakes = installChromiumAIFakes({
+			summarizer: { ...summarizer, respond: (input) => input },
+		});
+		const instance = (await safeInitSummarizer())._unsafeUnwrap();
+
+		const result = await instance.summarizeLong(
+			[paragraph("A"), paragraph("B")].join("\n\n"),
+		);
+
+		expect(result._unsafeUnwrapErr().kind).toBe("OperationFailed");
+	});
+
+	it("stops at the next chunk once the signal is aborted", async () => {
+		fakes = installChromiumAIFakes({ summarizer });
+		const instance = (await safeInitSummarizer())._unsafeUnwrap();
+		const controller = new AbortController();
+		let completed = 0;
+
+		const result = await instance.summarizeLong(
+			[paragraph("A"), paragraph("B"), paragraph("C")].join("\n\n"),
+			{
+				signal: controller.signal,
+				onProgress: () => {
+					completed++;
+					controller.abort();
+				},
+			},
+		);
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Aborted");
+		expect(completed).toBe(1);
+	});
+});
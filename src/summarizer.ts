@@ -1,14 +1,15 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import * as Safe from "./summarizer-safe";
-import type { SummarizerInstance } from "./types";
-import { okOrThrow } from "./utils";
+import type { SummarizerInitOptions, SummarizerInstance } from "./types";
+import { okOrThrow, okOrThrowIterable } from "./utils";
 
 /**
  * Initializes the Summarizer API by checking availability and triggering model download.
- * Returns an instance object with `.summarize()` and `.createSession()` methods.
+ * Returns an instance object with `.summarize()`, `.summarizeStreaming()`, `.summarizeMany()`,
+ * `.summarizeLong()` and `.createSession()` methods.
  *
- * @param createOptions Optional creation options (type, format, length, sharedContext)
+ * @param createOptions Optional creation options (type, format, length, sharedContext, cache, retry, scheduler)
  * @returns A SummarizerInstance
  * @throws {Error} If initialization fails
  *
@@ -17,7 +18,7 @@ import { okOrThrow } from "./utils";
  * const summary = await summarizer.summarize("Long article...");
  */
 export async function initSummarizer(
-	createOptions?: SummarizerCreateOptions,
+	createOptions?: SummarizerInitOptions,
 ): Promise<SummarizerInstance> {
 	const safeInstance = await Safe.initSummarizer(createOptions);
 	const safe = okOrThrow(safeInstance);
@@ -27,8 +28,16 @@ export async function initSummarizer(
 			const result = await safe.summarize(text, summarizeOptions);
 			return okOrThrow(result);
 		},
-		createSession: async () => {
-			const result = await safe.createSession();
+		summarizeStreaming: (text, summarizeOptions) =>
+			okOrThrowIterable(safe.summarizeStreaming(text, summarizeOptions)),
+		summarizeMany: (texts, batchOptions) =>
+			safe.summarizeMany(texts, batchOptions),
+		summarizeLong: async (text, summarizeLongOptions) => {
+			const result = await safe.summarizeLong(text, summarizeLongOptions);
+			return okOrThrow(result);
+		},
+		createSession: async (callOptions) => {
+			const result = await safe.createSession(callOptions);
 			return okOrThrow(result);
 		},
 		destroy: () => safe.destroy(),
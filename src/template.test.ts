@@ -0,0 +1,128 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initLanguageModel } from "./safe";
+import { createPromptTemplate } from "./template";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+
+let fakes: ChromiumAIFakes | undefined;
+
+afterEach(() => {
+	fakes?.uninstall();
+	fakes = undefined;
+});
+
+const translate = createPromptTemplate({
+	system: "Translate the user's text to {{language}}.",
+	examples: [{ input: "Good morning", output: "Bonjour" }],
+	user: "{{ text }}",
+	sessionOptions: { temperature: 0.2, topK: 3 },
+});
+
+describe("createPromptTemplate", () => {
+	it("compiles to session options and the user message", () => {
+		const compiled = translate.compile({
+			language: "French",
+			text: "See you tomorrow",
+		});
+
+		expect(compiled).toEqual({
+			text: "See you tomorrow",
+			sessionOptions: {
+				temperature: 0.2,
+				topK: 3,
+				initialPrompts: [
+					{ role: "system", content: "Translate the user's text to French." },
+					{ role: "user", content: "Good morning" },
+					{ role: "assistant", content: "Bonjour" },
+				],
+			},
+		});
+	});
+
+	it("lists its variables", () => {
+		expect(translate.variables).toEqual(["language", "text"]);
+	});
+
+	it("substitutes variables in examples", () => {
+		const template = createPromptTemplate({
+			examples: [{ input: "Rate {{product}}", output: "{{score}}/5" }],
+			user: "Rate {{product}}",
+		});
+
+		const { sessionOptions } = template.compile({ product: "tea", score: 4 });
+
+		expect(sessionOptions.initialPrompts).toEqual([
+			{ role: "user", content: "Rate tea" },
+			{ role: "assistant", content: "4/5" },
+		]);
+	});
+
+	it("catches missing variables at compile time", () => {
+		// @ts-expect-error `text` is missing
+		const result = translate.safeCompile({ language: "French" });
+
+		expect(result.isErr()).toBe(true);
+	});
+
+	it("catches missing variables at runtime", () => {
+		const user: string = "Summarize {{article}} in {{count}} words";
+		const template = createPromptTemplate({ user });
+
+		const error = template.safeCompile({ count: 20 })._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("InvalidInput");
+		expect(error.message).toBe("Missing template variable: article");
+		expect(() => template.compile()).toThrow(
+			"Missing template variables: article, count",
+		);
+	});
+
+	it("needs no values without variables", () => {
+		const template = createPromptTemplate({ user: "Tell me a joke" });
+
+		expect(template.compile()).toEqual({
+			text: "Tell me a joke",
+			sessionOptions: { initialPrompts: [] },
+		});
+	});
+
+	it("plugs into prompt() and createSession()", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+		const { text, sessionOptions } = translate.compile({
+			language: "German",
+			text: "Thank you",
+		});
+
+		const reply = await ai.prompt(text, undefined, undefined, sessionOptions);
+		const session = (await ai.createSession(sessionOptions))._unsafeUnwrap();
+		const sessionReply = await session.prompt(text);
+
+		expect(reply._unsafeUnwrap()).toBe("Echo: Thank you");
+		expect(fakes.languageModel.createCalls.at(-1)?.initialPrompts).toEqual(
+			sessionOptions.initialPrompts,
+		);
+		expect(sessionReply).toBe("Echo: Thank you");
+	});
+
+	it("is accepted as the prompt by prompt() and promptStreaming()", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+		const compiled = translate.compile({ language: "German", text: "Thanks" });
+
+		const reply = await ai.prompt(compiled, undefined, undefined, {
+			temperature: 0.5,
+		});
+		const chunks: string[] = [];
+		for await (const chunk of ai.promptStreaming(compiled)) {
+			chunks.push(chunk._unsafeUnwrap());
+		}
+
+		expect(reply._unsafeUnwrap()).toBe("Echo: Thanks");
+		expect(chunks.join("")).toBe("Echo: Thanks");
+		expect(fakes.languageModel.createCalls.at(-2)).toMatchObject({
+			temperature: 0.5,
+			topK: 3,
+			initialPrompts: compiled.sessionOptions.initialPrompts,
+		});
+	});
+});
@@ -0,0 +1,190 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { err, ok, type Result } from "neverthrow";
+import { type ChromiumAIError, InvalidInputError } from "./errors";
+import { okOrThrow } from "./utils";
+
+type Trim<T extends string> = T extends ` ${infer Rest}`
+	? Trim<Rest>
+	: T extends `${infer Rest} `
+		? Trim<Rest>
+		: T;
+
+/**
+ * The variable names used as `{{name}}` in a string literal type. Strings
+ * only known at runtime yield `never` and are checked by `compile()` instead.
+ */
+export type TemplateVariables<T extends string> =
+	T extends `${string}{{${infer Name}}}${infer Rest}`
+		? Trim<Name> | TemplateVariables<Rest>
+		: never;
+
+/**
+ * A few-shot example, sent as a user message followed by the assistant's reply.
+ */
+export interface PromptExample {
+	input: string;
+	output: string;
+}
+
+export interface PromptTemplateDefinition<
+	System extends string,
+	User extends string,
+	Examples extends readonly PromptExample[],
+> {
+	/** The system message */
+	system?: System;
+	/** Example exchanges placed between the system message and the prompt */
+	examples?: Examples;
+	/** The user message sent with each prompt */
+	user: User;
+	/** Other session options, e.g. temperature, merged into every compiled prompt */
+	sessionOptions?: Omit<LanguageModelCreateOptions, "initialPrompts">;
+}
+
+/** The values for every variable of a template, stringified on substitution. */
+export type TemplateValues<Name extends string> = Record<Name, string | number>;
+
+/**
+ * A compiled template. Pass it as the prompt to `prompt()` or
+ * `promptStreaming()`, or pass its `sessionOptions` to `createSession()` or
+ * `withSession()`.
+ *
+ * @example
+ * const compiled = template.compile({ language: "French" });
+ * await ai.prompt(compiled);
+ * await ai.withSession((session) => session.prompt(compiled.text), compiled.sessionOptions);
+ */
+export interface CompiledPrompt {
+	text: string;
+	sessionOptions: LanguageModelCreateOptions;
+}
+
+/**
+ * Splits a prompt given as text or as a compiled template into its text and
+ * session options. Explicit `sessionOptions` are merged over the template's.
+ */
+export function resolvePrompt(
+	prompt: string | CompiledPrompt,
+	sessionOptions: LanguageModelCreateOptions | undefined,
+): [string, LanguageModelCreateOptions | undefined] {
+	return typeof prompt === "string"
+		? [prompt, sessionOptions]
+		: [prompt.text, { ...prompt.sessionOptions, ...sessionOptions }];
+}
+
+/**
+ * Returned by `createPromptTemplate()`. `Name` is the union of the variable
+ * names found in the definition's string literals.
+ */
+export interface PromptTemplate<Name extends string> {
+	/** Every variable name in the definition, in order of first use */
+	readonly variables: readonly string[];
+	/**
+	 * Substitutes `values` into the template. Throws an InvalidInputError if a
+	 * variable has no value.
+	 */
+	compile(
+		...values: [Name] extends [never]
+			? [values?: TemplateValues<string>]
+			: [values: TemplateValues<Name>]
+	): CompiledPrompt;
+	/** Like `compile()`, but returns a Result instead of throwing. */
+	safeCompile(
+		...values: [Name] extends [never]
+			? [values?: TemplateValues<string>]
+			: [values: TemplateValues<Name>]
+	): Result<CompiledPrompt, ChromiumAIError>;
+}
+
+const VARIABLE = /\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function variablesOf(text: string): string[] {
+	return [...text.matchAll(VARIABLE)].map((match) => match[1] ?? "");
+}
+
+function substitute(
+	text: string,
+	values: Partial<Record<string, string | number>>,
+): string {
+	return text.replace(VARIABLE, (_match, name: string) => String(values[name]));
+}
+
+/**
+ * Creates a reusable prompt made of a system message, few-shot examples and
+ * a user message, each of which may contain `{{variable}}` placeholders.
+ * When the definition is written inline, a missing variable is a type error.
+ *
+ * @example
+ * const translate = createPromptTemplate({
+ *   system: "Translate the user's text to {{language}}.",
+ *   examples: [{ input: "Good morning", output: "Bonjour" }],
+ *   user: "{{text}}",
+ * });
+ * const answer = await ai.prompt(
+ *   translate.compile({ language: "French", text: "See you tomorrow" }),
+ * );
+ */
+export function createPromptTemplate<
+	const System extends string = never,
+	const User extends string = string,
+	const Examples extends readonly PromptExample[] = [],
+>(
+	definition: PromptTemplateDefinition<System, User, Examples>,
+): PromptTemplate<
+	TemplateVariables<
+		System | User | Examples[number]["input"] | Examples[number]["output"]
+	>
+> {
+	const examples = definition.examples ?? [];
+	const texts = [
+		...(definition.system !== undefined ? [definition.system] : []),
+		...examples.flatMap(({ input, output }) => [input, output]),
+		definition.user,
+	];
+	const variables = [...new Set(texts.flatMap(variablesOf))];
+
+	const safeCompile = (
+		values: Partial<Record<string, string | number>> = {},
+	): Result<CompiledPrompt, ChromiumAIError> => {
+		const missing = variables.filter((name) => values[name] === undefined);
+		if (missing.length > 0) {
+			return err(
+				new InvalidInputError(
+					`Missing template variable${missing.length === 1 ? "" : "s"}: ${missing.join(", ")}`,
+					{ api: "LanguageModel" },
+				),
+			);
+		}
+
+		const initialPrompts: LanguageModelMessage[] = examples.flatMap(
+			({ input, output }) => [
+				{ role: "user" as const, content: substitute(input, values) },
+				{ role: "assistant" as const, content: substitute(output, values) },
+			],
+		);
+
+		return ok({
+			text: substitute(definition.user, values),
+			sessionOptions: {
+				...definition.sessionOptions,
+				initialPrompts:
+					definition.system !== undefined
+						? [
+								{
+									role: "system",
+									content: substitute(definition.system, values),
+								},
+								...initialPrompts,
+							]
+						: initialPrompts,
+			},
+		});
+	};
+
+	return {
+		variables,
+		compile: (...values) => okOrThrow(safeCompile(values[0])),
+		safeCompile: (...values) => safeCompile(values[0]),
+	};
+}
@@ -0,0 +1,1218 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+/**
+ * Scriptable fakes for Chrome's built-in AI globals, for unit-testing code that
+ * uses simple-chromium-ai (or the native APIs) in Node or jsdom.
+ *
+ * @example
+ * import { installChromiumAIFakes, sequence } from "simple-chromium-ai/testing";
+ *
+ * const fakes = installChromiumAIFakes({
+ *   languageModel: { respond: sequence("Hello!", "Goodbye!") },
+ *   translator: { availability: "downloadable" },
+ *   summarizer: false, // leave the Summarizer global undefined
+ * });
+ *
+ * const ai = await initLanguageModel();
+ * await ai.prompt("Hi"); // "Hello!"
+ * fakes.languageModel.sessions[0]?.destroyed; // true
+ *
+ * fakes.uninstall();
+ */
+
+/**
+ * A canned value, or a function computing the value from the call's arguments.
+ * Functions may throw (or reject) to simulate native failures, e.g. with
+ * `new DOMException("Too long", "QuotaExceededError")`.
+ */
+export type FakeResponse<TArgs extends unknown[], TOutput> =
+	| TOutput
+	| ((...args: TArgs) => TOutput | Promise<TOutput>);
+
+/**
+ * Options shared by every fake API.
+ */
+export interface FakeApiOptions<TCoreOptions> {
+	/**
+	 * Returned by `availability()`. A fixed "downloadable" or "downloading"
+	 * state becomes "available" after the first successful `create()`.
+	 */
+	availability:
+		| Availability
+		| ((options: TCoreOptions | undefined) => Availability);
+	/** Fractions reported through `monitor` while `create()` downloads the model */
+	downloadProgress: number[];
+	/** Milliseconds between download progress events */
+	downloadDelay: number;
+	/** When set, `create()` rejects with this value */
+	createError: unknown;
+	/** Artificial delay in milliseconds before each call resolves */
+	latency: number;
+}
+
+/**
+ * Live state of one fake API. Every field can be reassigned mid-test.
+ */
+export type FakeApiState<TOptions, TSession, TCreateOptions> = TOptions & {
+	/** Every instance created so far, in order, including destroyed ones */
+	readonly sessions: TSession[];
+	/** The options passed to each `create()` call */
+	readonly createCalls: (TCreateOptions | undefined)[];
+};
+
+export type FakeHistoryMessage =
+	| LanguageModelSystemMessage
+	| LanguageModelMessage
+	| LanguageModelAssistantMessage;
+
+export interface FakeLanguageModelOptions
+	extends FakeApiOptions<LanguageModelCreateCoreOptions> {
+	/**
+	 * The model's reply. Called before the input is added to `session.history`.
+	 * Defaults to echoing the last user message.
+	 */
+	respond: FakeResponse<
+		[
+			input: LanguageModelPrompt,
+			session: FakeLanguageModel,
+			options: LanguageModelPromptOptions | undefined,
+		],
+		string
+	>;
+	contextWindow: number;
+	/** Token count of a prompt or message list. Defaults to one token per four characters. */
+	countTokens: (input: string | FakeHistoryMessage[]) => number;
+}
+
+export interface FakeTextApiOptions<TCoreOptions, TSession, TCallOptions>
+	extends FakeApiOptions<TCoreOptions> {
+	respond: FakeResponse<
+		[input: string, session: TSession, options: TCallOptions | undefined],
+		string
+	>;
+	inputQuota: number;
+	/** Token count of an input. Defaults to one token per four characters. */
+	countTokens: (input: string) => number;
+}
+
+export type FakeTranslatorOptions = FakeTextApiOptions<
+	TranslatorCreateCoreOptions,
+	FakeTranslator,
+	TranslatorTranslateOptions
+>;
+
+export type FakeSummarizerOptions = FakeTextApiOptions<
+	SummarizerCreateCoreOptions,
+	FakeSummarizer,
+	SummarizerSummarizeOptions
+>;
+
+export type FakeWriterOptions = FakeTextApiOptions<
+	WriterCreateCoreOptions,
+	FakeWriter,
+	WriterWriteOptions
+>;
+
+export type FakeRewriterOptions = FakeTextApiOptions<
+	RewriterCreateCoreOptions,
+	FakeRewriter,
+	RewriterRewriteOptions
+>;
+
+export interface FakeDetectorOptions
+	extends FakeApiOptions<LanguageDetectorCreateCoreOptions> {
+	respond: FakeResponse<
+		[input: string, session: FakeLanguageDetector],
+		LanguageDetectionResult[]
+	>;
+	inputQuota: number;
+	countTokens: (input: string) => number;
+}
+
+export interface FakeProofreaderOptions
+	extends FakeApiOptions<ProofreaderCreateCoreOptions> {
+	respond: FakeResponse<
+		[input: string, session: FakeProofreader],
+		ProofreadResult
+	>;
+}
+
+export interface ChromiumAIFakesConfig {
+	languageModel?: Partial<FakeLanguageModelOptions> | false;
+	translator?: Partial<FakeTranslatorOptions> | false;
+	languageDetector?: Partial<FakeDetectorOptions> | false;
+	summarizer?: Partial<FakeSummarizerOptions> | false;
+	writer?: Partial<FakeWriterOptions> | false;
+	rewriter?: Partial<FakeRewriterOptions> | false;
+	proofreader?: Partial<FakeProofreaderOptions> | false;
+}
+
+export interface ChromiumAIFakes {
+	languageModel: FakeApiState<
+		FakeLanguageModelOptions,
+		FakeLanguageModel,
+		LanguageModelCreateOptions
+	>;
+	translator: FakeApiState<
+		FakeTranslatorOptions,
+		FakeTranslator,
+		TranslatorCreateOptions
+	>;
+	languageDetector: FakeApiState<
+		FakeDetectorOptions,
+		FakeLanguageDetector,
+		LanguageDetectorCreateOptions
+	>;
+	summarizer: FakeApiState<
+		FakeSummarizerOptions,
+		FakeSummarizer,
+		SummarizerCreateOptions
+	>;
+	writer: FakeApiState<FakeWriterOptions, FakeWriter, WriterCreateOptions>;
+	rewriter: FakeApiState<
+		FakeRewriterOptions,
+		FakeRewriter,
+		RewriterCreateOptions
+	>;
+	proofreader: FakeApiState<
+		FakeProofreaderOptions,
+		FakeProofreader,
+		ProofreaderCreateOptions
+	>;
+	/** Restores the globals that existed before installation */
+	uninstall(): void;
+}
+
+const GLOBAL_NAMES = {
+	languageModel: "LanguageModel",
+	translator: "Translator",
+	languageDetector: "LanguageDetector",
+	summarizer: "Summarizer",
+	writer: "Writer",
+	rewriter: "Rewriter",
+	proofreader: "Proofreader",
+} as const;
+
+let active: ChromiumAIFakes | null = null;
+
+function activeState<K extends keyof typeof GLOBAL_NAMES>(
+	api: K,
+): ChromiumAIFakes[K] {
+	if (!active) {
+		throw new DOMException(
+			`${GLOBAL_NAMES[api]} fake used after uninstall()`,
+			"InvalidStateError",
+		);
+	}
+	return active[api];
+}
+
+// --- Helpers ---
+
+/**
+ * Returns a responder that yields the given outputs in order,
+ * repeating the last one once the list is exhausted.
+ */
+export function sequence<T>(...outputs: [T, ...T[]]): () => T {
+	let index = 0;
+	return () => {
+		const output = outputs[Math.min(index, outputs.length - 1)] as T;
+		index++;
+		return output;
+	};
+}
+
+function defaultCountTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function promptToText(input: string | FakeHistoryMessage[]): string {
+	if (typeof input === "string") {
+		return input;
+	}
+	return input
+		.map((message) =>
+			typeof message.content === "string"
+				? message.content
+				: message.content
+						.map((part) =>
+							typeof part.value === "string" ? part.value : `[${part.type}]`,
+						)
+						.join(" "),
+		)
+		.join("\n");
+}
+
+function resolveResponse<TArgs extends unknown[], TOutput>(
+	respond: FakeResponse<TArgs, TOutput>,
+	args: TArgs,
+): Promise<TOutput> {
+	return typeof respond === "function"
+		? Promise.resolve().then(() =>
+				(respond as (...args: TArgs) => TOutput | Promise<TOutput>)(...args),
+			)
+		: Promise.resolve(respond);
+}
+
+function abortReason(signal: AbortSignal): unknown {
+	return (
+		signal.reason ??
+		new DOMException("The operation was aborted.", "AbortError")
+	);
+}
+
+/**
+ * Resolves with `promise` unless the signal aborts first.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+	if (!signal) {
+		return promise;
+	}
+	if (signal.aborted) {
+		// The abandoned promise may still reject; don't let it go unhandled
+		promise.catch(() => undefined);
+		return Promise.reject(abortReason(signal));
+	}
+	return new Promise<T>((resolve, reject) => {
+		const onAbort = () => reject(abortReason(signal));
+		signal.addEventListener("abort", onAbort, { once: true });
+		promise.then(
+			(value) => {
+				signal.removeEventListener("abort", onAbort);
+				resolve(value);
+			},
+			(error) => {
+				signal.removeEventListener("abort", onAbort);
+				reject(error);
+			},
+		);
+	});
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+	return abortable(
+		new Promise<void>((resolve) => setTimeout(resolve, ms)),
+		signal,
+	);
+}
+
+/**
+ * Runs a fake call: waits for the configured latency, then computes the
+ * result, rejecting as soon as the signal aborts.
+ */
+async function runCall<T>(
+	latency: number,
+	signal: AbortSignal | undefined,
+	compute: () => Promise<T>,
+): Promise<T> {
+	await delay(latency, signal);
+	return abortable(compute(), signal);
+}
+
+/**
+ * Streams a computed response word by word, yielding to the event loop
+ * between chunks so that aborts can interleave.
+ */
+function streamResponse(
+	produce: () => Promise<string>,
+	signal?: AbortSignal,
+): ReadableStream<string> {
+	let chunks: string[] | null = null;
+
+	return new ReadableStream<string>({
+		async pull(controller) {
+			if (!chunks) {
+				const response = await produce();
+				chunks = response.match(/\S+\s*|\s+/g) ?? [];
+			}
+			await delay(0, signal);
+			const chunk = chunks.shift();
+			if (chunk === undefined) {
+				controller.close();
+			} else {
+				controller.enqueue(chunk);
+			}
+		},
+	});
+}
+
+function quotaError(): DOMException {
+	return new DOMException(
+		"The input is too large for the model.",
+		"QuotaExceededError",
+	);
+}
+
+function destroyedError(): DOMException {
+	return new DOMException(
+		"The session has been destroyed.",
+		"InvalidStateError",
+	);
+}
+
+class FakeCreateMonitor extends EventTarget implements CreateMonitor {
+	ondownloadprogress:
+		| ((this: CreateMonitor, ev: ProgressEvent) => unknown)
+		| null = null;
+}
+
+function createProgressEvent(loaded: number): ProgressEvent {
+	if (typeof ProgressEvent !== "undefined") {
+		return new ProgressEvent("downloadprogress", {
+			loaded,
+			total: 1,
+			lengthComputable: true,
+		});
+	}
+	// Node has no ProgressEvent, so decorate a plain Event with the same fields
+	return Object.assign(new Event("downloadprogress"), {
+		loaded,
+		total: 1,
+		lengthComputable: true,
+	}) as ProgressEvent;
+}
+
+function currentAvailability<TCoreOptions>(
+	state: FakeApiOptions<TCoreOptions>,
+	options: TCoreOptions | undefined,
+): Availability {
+	return typeof state.availability === "function"
+		? state.availability(options)
+		: state.availability;
+}
+
+/**
+ * The shared part of every fake `create()`: records the call, fails if
+ * configured to, and simulates the download with progress events.
+ */
+async function prepareCreate<
+	TCreateOptions extends {
+		signal?: AbortSignal;
+		monitor?: CreateMonitorCallback;
+	},
+>(
+	state: FakeApiState<FakeApiOptions<TCreateOptions>, unknown, TCreateOptions>,
+	options: TCreateOptions | undefined,
+): Promise<void> {
+	state.createCalls.push(options);
+
+	if (options?.signal?.aborted) {
+		throw abortReason(options.signal);
+	}
+	if (state.createError !== undefined) {
+		throw state.createError;
+	}
+
+	const availability = currentAvailability(state, options);
+	if (availability === "unavailable") {
+		throw new DOMException(
+			"The model is unavailable on this device.",
+			"NotSupportedError",
+		);
+	}
+
+	const monitor = new FakeCreateMonitor();
+	options?.monitor?.(monitor);
+
+	if (availability !== "available") {
+		for (const loaded of state.downloadProgress) {
+			await delay(state.downloadDelay, options?.signal);
+			const event = createProgressEvent(loaded);
+			monitor.ondownloadprogress?.call(monitor, event);
+			monitor.dispatchEvent(event);
+		}
+		if (typeof state.availability !== "function") {
+			state.availability = "available";
+		}
+	}
+}
+
+function baseOptions<TCoreOptions>(): FakeApiOptions<TCoreOptions> {
+	return {
+		availability: "available",
+		downloadProgress: [0, 0.5, 1],
+		downloadDelay: 0,
+		createError: undefined,
+		latency: 0,
+	};
+}
+
+// --- Prompt API ---
+
+function toMessages(input: LanguageModelPrompt): FakeHistoryMessage[] {
+	return typeof input === "string" ? [{ role: "user", content: input }] : input;
+}
+
+/**
+ * Fake `LanguageModel` session. Tracks its conversation in `history` and
+ * charges every message against `contextWindow`. When the window overflows,
+ * the oldest non-system messages are dropped and `contextoverflow` fires.
+ */
+export class FakeLanguageModel extends EventTarget implements LanguageModel {
+	readonly createOptions: LanguageModelCreateOptions | undefined;
+	readonly history: FakeHistoryMessage[];
+	destroyed = false;
+	oncontextoverflow: ((this: LanguageModel, ev: Event) => unknown) | null =
+		null;
+	onquotaoverflow: ((this: LanguageModel, ev: Event) => unknown) | null = null;
+	readonly topK = 3;
+	readonly temperature = 1;
+
+	constructor(
+		createOptions: LanguageModelCreateOptions | undefined,
+		history: FakeHistoryMessage[],
+	) {
+		super();
+		this.createOptions = createOptions;
+		this.history = history;
+	}
+
+	static async create(
+		options?: LanguageModelCreateOptions,
+	): Promise<LanguageModel> {
+		const state = activeState("languageModel");
+		await prepareCreate(state, options);
+
+		const session = new FakeLanguageModel(options, [
+			...(options?.initialPrompts ?? []),
+		]);
+		if (session.contextUsage > session.contextWindow) {
+			throw quotaError();
+		}
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: LanguageModelCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("languageModel"), options);
+	}
+
+	static async params(): Promise<LanguageModelParams> {
+		return {
+			defaultTopK: 3,
+			maxTopK: 128,
+			defaultTemperature: 1,
+			maxTemperature: 2,
+		};
+	}
+
+	get contextWindow(): number {
+		return activeState("languageModel").contextWindow;
+	}
+
+	get contextUsage(): number {
+		const { countTokens } = activeState("languageModel");
+		return this.history.reduce(
+			(total, message) => total + countTokens([message]),
+			0,
+		);
+	}
+
+	get inputQuota(): number {
+		return this.contextWindow;
+	}
+
+	get inputUsage(): number {
+		return this.contextUsage;
+	}
+
+	prompt(
+		input: LanguageModelPrompt,
+		options?: LanguageModelPromptOptions,
+	): Promise<string> {
+		const state = activeState("languageModel");
+		return runCall(state.latency, options?.signal, async () => {
+			this.assertUsable(input);
+			const response = await resolveResponse(state.respond, [
+				input,
+				this,
+				options,
+			]);
+			this.record([
+				...toMessages(input),
+				{ role: "assistant", content: response },
+			]);
+			return response;
+		});
+	}
+
+	promptStreaming(
+		input: LanguageModelPrompt,
+		options?: LanguageModelPromptOptions,
+	): ReadableStream<string> {
+		return streamResponse(() => this.prompt(input, options), options?.signal);
+	}
+
+	async append(
+		input: LanguageModelPrompt,
+		options?: LanguageModelAppendOptions,
+	): Promise<undefined> {
+		const state = activeState("languageModel");
+		return runCall(state.latency, options?.signal, async () => {
+			this.assertUsable(input);
+			this.record(toMessages(input));
+			return undefined;
+		});
+	}
+
+	async measureContextUsage(input: LanguageModelPrompt): Promise<number> {
+		if (this.destroyed) {
+			throw destroyedError();
+		}
+		return activeState("languageModel").countTokens(input);
+	}
+
+	measureInputUsage(input: LanguageModelPrompt): Promise<number> {
+		return this.measureContextUsage(input);
+	}
+
+	async clone(options?: LanguageModelCloneOptions): Promise<LanguageModel> {
+		if (options?.signal?.aborted) {
+			throw abortReason(options.signal);
+		}
+		if (this.destroyed) {
+			throw destroyedError();
+		}
+		const clone = new FakeLanguageModel(this.createOptions, [...this.history]);
+		activeState("languageModel").sessions.push(clone);
+		return clone;
+	}
+
+	destroy(): undefined {
+		this.destroyed = true;
+		return undefined;
+	}
+
+	private assertUsable(input: LanguageModelPrompt): void {
+		if (this.destroyed) {
+			throw destroyedError();
+		}
+		if (activeState("languageModel").countTokens(input) > this.contextWindow) {
+			throw quotaError();
+		}
+	}
+
+	private record(messages: FakeHistoryMessage[]): void {
+		this.history.push(...messages);
+
+		let overflowed = false;
+		while (this.contextUsage > this.contextWindow) {
+			const oldest = this.history.findIndex(
+				(message) => message.role !== "system",
+			);
+			if (oldest === -1) {
+				break;
+			}
+			this.history.splice(oldest, 1);
+			overflowed = true;
+		}
+
+		if (overflowed) {
+			const event = new Event("contextoverflow");
+			this.oncontextoverflow?.call(this, event);
+			this.dispatchEvent(event);
+		}
+	}
+}
+
+// --- Translator, Summarizer, Writer, Rewriter ---
+
+/**
+ * Shared behavior of the fakes that take a string and return a string.
+ */
+abstract class FakeTextSession<TCallOptions extends { signal?: AbortSignal }> {
+	destroyed = false;
+
+	protected abstract get textState(): Omit<
+		FakeTextApiOptions<unknown, this, TCallOptions>,
+		"availability"
+	>;
+
+	get inputQuota(): number {
+		return this.textState.inputQuota;
+	}
+
+	async measureInputUsage(input: string): Promise<number> {
+		if (this.destroyed) {
+			throw destroyedError();
+		}
+		return this.textState.countTokens(input);
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+	}
+
+	protected run(input: string, options?: TCallOptions): Promise<string> {
+		const state = this.textState;
+		return runCall(state.latency, options?.signal, async () => {
+			if (this.destroyed) {
+				throw destroyedError();
+			}
+			if (state.countTokens(input) > state.inputQuota) {
+				throw quotaError();
+			}
+			return resolveResponse(state.respond, [input, this, options]);
+		});
+	}
+
+	protected stream(input: string, options?: TCallOptions) {
+		return streamResponse(() => this.run(input, options), options?.signal);
+	}
+}
+
+export class FakeTranslator
+	extends FakeTextSession<TranslatorTranslateOptions>
+	implements Translator
+{
+	readonly sourceLanguage: string;
+	readonly targetLanguage: string;
+
+	constructor(options: TranslatorCreateOptions) {
+		super();
+		this.sourceLanguage = options.sourceLanguage;
+		this.targetLanguage = options.targetLanguage;
+	}
+
+	static async create(options: TranslatorCreateOptions): Promise<Translator> {
+		const state = activeState("translator");
+		await prepareCreate(state, options);
+		const session = new FakeTranslator(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options: TranslatorCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("translator"), options);
+	}
+
+	protected get textState() {
+		return activeState("translator");
+	}
+
+	translate(
+		input: string,
+		options?: TranslatorTranslateOptions,
+	): Promise<string> {
+		return this.run(input, options);
+	}
+
+	translateStreaming(
+		input: string,
+		options?: TranslatorTranslateOptions,
+	): ReadableStream<string> {
+		return this.stream(input, options);
+	}
+}
+
+export class FakeSummarizer
+	extends FakeTextSession<SummarizerSummarizeOptions>
+	implements Summarizer
+{
+	readonly sharedContext: string;
+	readonly type: SummarizerType;
+	readonly format: SummarizerFormat;
+	readonly length: SummarizerLength;
+	readonly expectedInputLanguages?: ReadonlyArray<string>;
+	readonly expectedContextLanguages?: ReadonlyArray<string>;
+	readonly outputLanguage?: string;
+
+	constructor(options?: SummarizerCreateOptions) {
+		super();
+		this.sharedContext = options?.sharedContext ?? "";
+		this.type = options?.type ?? "key-points";
+		this.format = options?.format ?? "markdown";
+		this.length = options?.length ?? "short";
+		this.expectedInputLanguages = options?.expectedInputLanguages;
+		this.expectedContextLanguages = options?.expectedContextLanguages;
+		this.outputLanguage = options?.outputLanguage;
+	}
+
+	static async create(options?: SummarizerCreateOptions): Promise<Summarizer> {
+		const state = activeState("summarizer");
+		await prepareCreate(state, options);
+		const session = new FakeSummarizer(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: SummarizerCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("summarizer"), options);
+	}
+
+	protected get textState() {
+		return activeState("summarizer");
+	}
+
+	summarize(
+		input: string,
+		options?: SummarizerSummarizeOptions,
+	): Promise<string> {
+		return this.run(input, options);
+	}
+
+	summarizeStreaming(
+		input: string,
+		options?: SummarizerSummarizeOptions,
+	): ReadableStream<string> {
+		return this.stream(input, options);
+	}
+}
+
+export class FakeWriter
+	extends FakeTextSession<WriterWriteOptions>
+	implements Writer
+{
+	readonly sharedContext?: string;
+	readonly tone: WriterTone;
+	readonly format: WriterFormat;
+	readonly length: WriterLength;
+	readonly expectedInputLanguages?: ReadonlyArray<string>;
+	readonly expectedContextLanguages?: ReadonlyArray<string>;
+	readonly outputLanguage?: string;
+
+	constructor(options?: WriterCreateOptions) {
+		super();
+		this.sharedContext = options?.sharedContext;
+		this.tone = options?.tone ?? "neutral";
+		this.format = options?.format ?? "markdown";
+		this.length = options?.length ?? "short";
+		this.expectedInputLanguages = options?.expectedInputLanguages;
+		this.expectedContextLanguages = options?.expectedContextLanguages;
+		this.outputLanguage = options?.outputLanguage;
+	}
+
+	static async create(options?: WriterCreateOptions): Promise<Writer> {
+		const state = activeState("writer");
+		await prepareCreate(state, options);
+		const session = new FakeWriter(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: WriterCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("writer"), options);
+	}
+
+	protected get textState() {
+		return activeState("writer");
+	}
+
+	write(input: string, options?: WriterWriteOptions): Promise<string> {
+		return this.run(input, options);
+	}
+
+	writeStreaming(
+		input: string,
+		options?: WriterWriteOptions,
+	): ReadableStream<string> {
+		return this.stream(input, options);
+	}
+}
+
+export class FakeRewriter
+	extends FakeTextSession<RewriterRewriteOptions>
+	implements Rewriter
+{
+	readonly sharedContext: string;
+	readonly tone: RewriterTone;
+	readonly format: RewriterFormat;
+	readonly length: RewriterLength;
+	readonly expectedInputLanguages?: ReadonlyArray<string>;
+	readonly expectedContextLanguages?: ReadonlyArray<string>;
+	readonly outputLanguage?: string;
+
+	constructor(options?: RewriterCreateOptions) {
+		super();
+		this.sharedContext = options?.sharedContext ?? "";
+		this.tone = options?.tone ?? "as-is";
+		this.format = options?.format ?? "as-is";
+		this.length = options?.length ?? "as-is";
+		this.expectedInputLanguages = options?.expectedInputLanguages;
+		this.expectedContextLanguages = options?.expectedContextLanguages;
+		this.outputLanguage = options?.outputLanguage;
+	}
+
+	static async create(options?: RewriterCreateOptions): Promise<Rewriter> {
+		const state = activeState("rewriter");
+		await prepareCreate(state, options);
+		const session = new FakeRewriter(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: RewriterCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("rewriter"), options);
+	}
+
+	protected get textState() {
+		return activeState("rewriter");
+	}
+
+	rewrite(input: string, options?: RewriterRewriteOptions): Promise<string> {
+		return this.run(input, options);
+	}
+
+	rewriteStreaming(
+		input: string,
+		options?: RewriterRewriteOptions,
+	): ReadableStream<string> {
+		return this.stream(input, options);
+	}
+}
+
+// --- Language Detector and Proofreader ---
+
+export class FakeLanguageDetector implements LanguageDetector {
+	readonly expectedInputLanguages: ReadonlyArray<string>;
+	destroyed = false;
+
+	constructor(options?: LanguageDetectorCreateOptions) {
+		this.expectedInputLanguages = options?.expectedInputLanguages ?? [];
+	}
+
+	static async create(
+		options?: LanguageDetectorCreateOptions,
+	): Promise<LanguageDetector> {
+		const state = activeState("languageDetector");
+		await prepareCreate(state, options);
+		const session = new FakeLanguageDetector(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: LanguageDetectorCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("languageDetector"), options);
+	}
+
+	get inputQuota(): number {
+		return activeState("languageDetector").inputQuota;
+	}
+
+	detect(
+		input: string,
+		options?: LanguageDetectorDetectOptions,
+	): Promise<LanguageDetectionResult[]> {
+		const state = activeState("languageDetector");
+		return runCall(state.latency, options?.signal, async () => {
+			if (this.destroyed) {
+				throw destroyedError();
+			}
+			if (state.countTokens(input) > state.inputQuota) {
+				throw quotaError();
+			}
+			return resolveResponse(state.respond, [input, this]);
+		});
+	}
+
+	async measureInputUsage(input: string): Promise<number> {
+		if (this.destroyed) {
+			throw destroyedError();
+		}
+		return activeState("languageDetector").countTokens(input);
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+	}
+}
+
+export class FakeProofreader implements Proofreader {
+	readonly includeCorrectionTypes: boolean;
+	readonly includeCorrectionExplanations: boolean;
+	readonly correctionExplanationLanguage?: string;
+	readonly expectedInputLanguages: ReadonlyArray<string>;
+	destroyed = false;
+
+	constructor(options?: ProofreaderCreateOptions) {
+		this.includeCorrectionTypes = options?.includeCorrectionTypes ?? false;
+		this.includeCorrectionExplanations =
+			options?.includeCorrectionExplanations ?? false;
+		this.correctionExplanationLanguage = options?.correctionExplanationLanguage;
+		this.expectedInputLanguages = options?.expectedInputLanguages ?? [];
+	}
+
+	static async create(
+		options?: ProofreaderCreateOptions,
+	): Promise<Proofreader> {
+		const state = activeState("proofreader");
+		await prepareCreate(state, options);
+		const session = new FakeProofreader(options);
+		state.sessions.push(session);
+		return session;
+	}
+
+	static async availability(
+		options?: ProofreaderCreateCoreOptions,
+	): Promise<Availability> {
+		return currentAvailability(activeState("proofreader"), options);
+	}
+
+	proofread(
+		input: string,
+		options?: ProofreaderProofreadOptions,
+	): Promise<ProofreadResult> {
+		const state = activeState("proofreader");
+		return runCall(state.latency, options?.signal, async () => {
+			if (this.destroyed) {
+				throw destroyedError();
+			}
+			return resolveResponse(state.respond, [input, this]);
+		});
+	}
+
+	destroy(): void {
+		this.destroyed = true;
+	}
+}
+
+// --- Installation ---
+
+function textDefaults<TCoreOptions, TSession, TCallOptions>(
+	respond: FakeTextApiOptions<TCoreOptions, TSession, TCallOptions>["respond"],
+): FakeTextApiOptions<TCoreOptions, TSession, TCallOptions> {
+	return {
+		...baseOptions<TCoreOptions>(),
+		respond,
+		inputQuota: 4000,
+		countTokens: defaultCountTokens,
+	};
+}
+
+function overrides<T>(options: T | false | undefined): T | undefined {
+	return options === false ? undefined : options;
+}
+
+function withTracking<TOptions, TSession, TCreateOptions>(
+	options: TOptions,
+): FakeApiState<TOptions, TSession, TCreateOptions> {
+	return { ...options, sessions: [], createCalls: [] };
+}
+
+const FAKE_CLASSES = {
+	languageModel: FakeLanguageModel,
+	translator: FakeTranslator,
+	languageDetector: FakeLanguageDetector,
+	summarizer: FakeSummarizer,
+	writer: FakeWriter,
+	rewriter: FakeRewriter,
+	proofreader: FakeProofreader,
+} as const;
+
+/**
+ * Installs fakes for every Chrome built-in AI global (`LanguageModel`,
+ * `Translator`, `LanguageDetector`, `Summarizer`, `Writer`, `Rewriter`,
+ * `Proofreader`). Pass options per API to script it, or `false` to leave that
+ * global undefined. Only one set of fakes can be installed at a time.
+ *
+ * @returns The live state of each fake, plus `uninstall()`
+ */
+export function installChromiumAIFakes(
+	config: ChromiumAIFakesConfig = {},
+): ChromiumAIFakes {
+	if (active) {
+		active.uninstall();
+	}
+
+	const previous = new Map<string, PropertyDescriptor | undefined>();
+
+	const fakes: ChromiumAIFakes = {
+		languageModel: withTracking({
+			...baseOptions<LanguageModelCreateCoreOptions>(),
+			respond: (input: LanguageModelPrompt) => {
+				const messages = toMessages(input);
+				return `Echo: ${promptToText(messages.slice(-1))}`;
+			},
+			contextWindow: 4096,
+			countTokens: (input: string | FakeHistoryMessage[]) =>
+				defaultCountTokens(promptToText(input)),
+			...overrides(config.languageModel),
+		}),
+		translator: withTracking({
+			...textDefaults<
+				TranslatorCreateCoreOptions,
+				FakeTranslator,
+				TranslatorTranslateOptions
+			>((input, session) => `[${session.targetLanguage}] ${input}`),
+			...overrides(config.translator),
+		}),
+		languageDetector: withTracking({
+			...baseOptions<LanguageDetectorCreateCoreOptions>(),
+			respond: [{ detectedLanguage: "en", confidence: 1 }],
+			inputQuota: 4000,
+			countTokens: defaultCountTokens,
+			...overrides(config.languageDetector),
+		}),
+		summarizer: withTracking({
+			...textDefaults<
+				SummarizerCreateCoreOptions,
+				FakeSummarizer,
+				SummarizerSummarizeOptions
+			>((input) => `Summary: ${input.split(/(?<=[.!?])\s/)[0] ?? ""}`),
+			...overrides(config.summarizer),
+		}),
+		writer: withTracking({
+			...textDefaults<WriterCreateCoreOptions, FakeWriter, WriterWriteOptions>(
+				(input) => `Draft: ${input}`,
+			),
+			...overrides(config.writer),
+		}),
+		rewriter: withTracking({
+			...textDefaults<
+				RewriterCreateCoreOptions,
+				FakeRewriter,
+				RewriterRewriteOptions
+			>((input) => input),
+			...overrides(config.rewriter),
+		}),
+		proofreader: withTracking({
+			...baseOptions<ProofreaderCreateCoreOptions>(),
+			respond: (input: string) => ({ correctedInput: input, corrections: [] }),
+			...overrides(config.proofreader),
+		}),
+		uninstall: () => {
+			for (const [name, descriptor] of previous) {
+				if (descriptor) {
+					Object.defineProperty(globalThis, name, descriptor);
+				} else {
+					Reflect.deleteProperty(globalThis, name);
+				}
+			}
+			if (active === fakes) {
+				active = null;
+			}
+		},
+	};
+
+	for (const api of Object.keys(
+		GLOBAL_NAMES,
+	) as (keyof typeof GLOBAL_NAMES)[]) {
+		const name = GLOBAL_NAMES[api];
+		previous.set(name, Object.getOwnPropertyDescriptor(globalThis, name));
+
+		if (config[api] === false) {
+			Reflect.deleteProperty(globalThis, name);
+		} else {
+			Object.defineProperty(globalThis, name, {
+				value: FAKE_CLASSES[api],
+				configurable: true,
+				writable: true,
+			});
+		}
+	}
+
+	active = fakes;
+	return fakes;
+}
+
+// --- Extension ports ---
+
+export interface FakePortEvent<TArgs extends unknown[]> {
+	addListener(listener: (...args: TArgs) => void): void;
+	removeListener(listener: (...args: TArgs) => void): void;
+}
+
+/**
+ * An in-memory stand-in for `chrome.runtime.Port`, e.g. to test both sides
+ * of `createBridgeHost()` and `createBridgeClient()` in one process.
+ */
+export interface FakePort {
+	readonly name: string;
+	postMessage(message: unknown): void;
+	onMessage: FakePortEvent<[message: unknown]>;
+	onDisconnect: FakePortEvent<[]>;
+	disconnect(): void;
+	/** Every message this port has posted, as delivered to the other side */
+	readonly sent: unknown[];
+	/** Whether either side has called `disconnect()` */
+	readonly disconnected: boolean;
+}
+
+function fakePortEvent<TArgs extends unknown[]>() {
+	const listeners = new Set<(...args: TArgs) => void>();
+	const event: FakePortEvent<TArgs> = {
+		addListener: (listener) => {
+			listeners.add(listener);
+		},
+		removeListener: (listener) => {
+			listeners.delete(listener);
+		},
+	};
+	const dispatch = (...args: TArgs) => {
+		for (const listener of [...listeners]) {
+			listener(...args);
+		}
+	};
+	return { event, dispatch };
+}
+
+/**
+ * Creates two connected fake ports. As with Chrome's ports, each message is
+ * delivered asynchronously as a JSON copy, `postMessage()` throws once the
+ * ports are disconnected, and `disconnect()` fires `onDisconnect` only on the
+ * other port.
+ *
+ * @example
+ * const [clientPort, hostPort] = createFakePorts();
+ * createBridgeHost({ languageModel: ai }).serve(hostPort);
+ * const bridge = createBridgeClient(clientPort);
+ */
+export function createFakePorts(name = ""): [FakePort, FakePort] {
+	let disconnected = false;
+
+	const createPort = () => {
+		const message = fakePortEvent<[message: unknown]>();
+		const disconnect = fakePortEvent<[]>();
+		const sent: unknown[] = [];
+		return { message, disconnect, sent };
+	};
+	const sides = [createPort(), createPort()] as const;
+
+	const toPort = (index: 0 | 1): FakePort => {
+		const own = sides[index];
+		const other = sides[index === 0 ? 1 : 0];
+		return {
+			name,
+			onMessage: own.message.event,
+			onDisconnect: own.disconnect.event,
+			sent: own.sent,
+			get disconnected() {
+				return disconnected;
+			},
+			postMessage: (message) => {
+				if (disconnected) {
+					throw new Error("Attempting to use a disconnected port object");
+				}
+				const json = JSON.stringify(message);
+				const copy: unknown = json === undefined ? undefined : JSON.parse(json);
+				own.sent.push(copy);
+				setTimeout(() => {
+					if (!disconnected) {
+						other.message.dispatch(copy);
+					}
+				}, 0);
+			},
+			disconnect: () => {
+				if (disconnected) {
+					return;
+				}
+				disconnected = true;
+				setTimeout(() => other.disconnect.dispatch(), 0);
+			},
+		};
+	};
+
+	return [toPort(0), toPort(1)];
+}
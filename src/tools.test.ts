@@ -0,0 +1,195 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { initLanguageModel as initThrowingLanguageModel } from "./index";
+import type { JsonSchema } from "./json-schema";
+import { initLanguageModel } from "./safe";
+import {
+	type ChromiumAIFakes,
+	installChromiumAIFakes,
+	sequence,
+} from "./testing";
+import type { Tool } from "./types";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+interface WeatherArgs {
+	city: string;
+}
+
+const weather: Tool<WeatherArgs> = {
+	name: "get_weather",
+	description: "Returns the current weather in a city.",
+	parameters: {
+		type: "object",
+		properties: { city: { type: "string" } },
+		required: ["city"],
+	},
+	handler: ({ city }) => ({ city, forecast: "sunny" }),
+};
+
+const call = (tool: string, args: Record<string, unknown>) =>
+	JSON.stringify({ tool, arguments: args });
+const answer = (text: string) => JSON.stringify({ answer: text });
+
+describe("runWithTools", () => {
+	it("runs the chosen tool and returns the final answer with a trace", async () => {
+		const inputs: unknown[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					inputs.push(input);
+					return inputs.length === 1
+						? call("get_weather", { city: "Paris" })
+						: answer("It is sunny in Paris.");
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const result = await ai.runWithTools("Weather in Paris?", [weather]);
+
+		expect(result._unsafeUnwrap()).toEqual({
+			answer: "It is sunny in Paris.",
+			trace: [
+				{
+					tool: "get_weather",
+					arguments: { city: "Paris" },
+					result: { city: "Paris", forecast: "sunny" },
+				},
+			],
+		});
+		expect(inputs[1]).toBe(
+			'Result of get_weather: {"city":"Paris","forecast":"sunny"}',
+		);
+		const session = fakes.languageModel.sessions.at(-1);
+		expect(session?.history[0]?.content).toContain("get_weather");
+		expect(session?.destroyed).toBe(true);
+	});
+
+	it("constrains each step to a tool call or an answer", async () => {
+		const constraints: unknown[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (_input, _session, options) => {
+					constraints.push(options?.responseConstraint);
+					return answer("Done");
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		await ai.runWithTools("Hi", [weather]);
+
+		const [toolCall, final] = (constraints[0] as JsonSchema).anyOf ?? [];
+		expect(toolCall?.properties).toEqual({
+			tool: { const: "get_weather" },
+			arguments: weather.parameters,
+		});
+		expect(final?.required).toEqual(["answer"]);
+	});
+
+	it("reports a failing handler to the model and keeps going", async () => {
+		const inputs: unknown[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (input) => {
+					inputs.push(input);
+					return inputs.length === 1
+						? call("lookup_tab", { id: 7 })
+						: answer("That tab is gone.");
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+		const lookupTab: Tool<{ id: number }> = {
+			name: "lookup_tab",
+			description: "Finds an open tab by id.",
+			parameters: { type: "object", properties: { id: { type: "integer" } } },
+			handler: ({ id }) => {
+				throw new Error(`No tab with id ${id}`);
+			},
+		};
+
+		const result = (
+			await ai.runWithTools("Open tab 7", [lookupTab])
+		)._unsafeUnwrap();
+
+		expect(result.trace).toEqual([
+			{ tool: "lookup_tab", arguments: { id: 7 }, error: "No tab with id 7" },
+		]);
+		expect(inputs[1]).toBe("lookup_tab failed: No tab with id 7");
+	});
+
+	it("asks for the final answer once maxSteps tool calls were made", async () => {
+		const constraints: unknown[] = [];
+		fakes = installChromiumAIFakes({
+			languageModel: {
+				respond: (_input, _session, options) => {
+					constraints.push(options?.responseConstraint);
+					return constraints.length <= 2
+						? call("get_weather", { city: "Rome" })
+						: answer("Still sunny.");
+				},
+			},
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+		const steps: number[] = [];
+
+		const result = await ai.runWithTools(
+			"Weather in Rome?",
+			[{ ...weather, handler: (_args, { step }) => steps.push(step) }],
+			{ maxSteps: 2 },
+		);
+
+		expect(result._unsafeUnwrap().answer).toBe("Still sunny.");
+		expect(steps).toEqual([1, 2]);
+		expect(constraints[2]).not.toHaveProperty("anyOf");
+		expect(
+			fakes.languageModel.sessions.at(-1)?.history.at(-2)?.content,
+		).toContain("final answer");
+	});
+
+	it("fails with StructuredOutput when the response does not match", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: sequence(call("unknown_tool", {})) },
+		});
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const error = (await ai.runWithTools("Hi", [weather]))._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("StructuredOutput");
+		expect(fakes.languageModel.sessions.at(-1)?.destroyed).toBe(true);
+	});
+
+	it("rejects duplicate tool names", async () => {
+		fakes = installChromiumAIFakes();
+		const ai = (await initLanguageModel())._unsafeUnwrap();
+
+		const error = (
+			await ai.runWithTools("Hi", [weather, weather])
+		)._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("InvalidInput");
+		expect(error.message).toBe('Duplicate tool name "get_weather"');
+	});
+
+	it("puts the system prompt before the tool instructions", async () => {
+		fakes = installChromiumAIFakes({
+			languageModel: { respond: answer("Hello") },
+		});
+		const ai = await initThrowingLanguageModel();
+
+		const result = await ai.runWithTools("Hi", [weather], {
+			systemPrompt: "You are a browser assistant.",
+		});
+
+		expect(result.answer).toBe("Hello");
+		const system = fakes.languageModel.sessions.at(-1)?.history[0]?.content;
+		expect(String(system).startsWith("You are a browser assistant.")).toBe(
+			true,
+		);
+	});
+});
@@ -0,0 +1,190 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+	type ChromiumAIError,
+	InvalidInputError,
+	OperationFailedError,
+	StructuredOutputError,
+	toChromiumAIError,
+} from "./errors";
+import { type JsonSchema, validateJsonSchema } from "./json-schema";
+import type { ScheduledCall } from "./scheduler";
+import type {
+	RunWithToolsOptions,
+	Tool,
+	ToolCallRecord,
+	ToolRunResult,
+} from "./types";
+import { withPromptTimeout } from "./utils";
+
+type ToolStep =
+	| { answer: string }
+	| { tool: string; arguments: Record<string, unknown> };
+
+const answerSchema: JsonSchema = {
+	type: "object",
+	properties: { answer: { type: "string" } },
+	required: ["answer"],
+	additionalProperties: false,
+};
+
+const FINAL_ANSWER_REQUEST =
+	"You have used all available tool calls. Respond with your final answer now.";
+
+function toolCallSchema(tool: Tool<never>): JsonSchema {
+	return {
+		type: "object",
+		properties: {
+			tool: { const: tool.name },
+			arguments: tool.parameters,
+		},
+		required: ["tool", "arguments"],
+		additionalProperties: false,
+	};
+}
+
+function buildSystemPrompt(
+	tools: readonly Tool<never>[],
+	systemPrompt: string | undefined,
+): string {
+	return [
+		...(systemPrompt !== undefined ? [systemPrompt, ""] : []),
+		"You can call these tools:",
+		...tools.map(
+			(tool) =>
+				`- ${tool.name}: ${tool.description} Arguments: ${JSON.stringify(tool.parameters)}`,
+		),
+		"",
+		'To call a tool, respond with {"tool": "<name>", "arguments": {...}}. You will receive its result and may call another tool.',
+		'When you can answer, respond with {"answer": "<your answer>"}.',
+	].join("\n");
+}
+
+function findToolProblem(tools: readonly Tool<never>[]): string | undefined {
+	const names = new Set<string>();
+	for (const tool of tools) {
+		if (tool.name.trim() === "") {
+			return "Tool names must not be empty";
+		}
+		if (names.has(tool.name)) {
+			return `Duplicate tool name "${tool.name}"`;
+		}
+		names.add(tool.name);
+	}
+	return undefined;
+}
+
+/**
+ * Runs the tool-calling loop in one session. Each prompt is constrained to a
+ * tool call or the final answer; after `maxSteps` tool calls, only the answer
+ * is allowed. A handler error is reported to the model rather than ending the
+ * run.
+ */
+export function runWithTools(
+	acquireSession: (
+		options?: LanguageModelCreateOptions,
+	) => ResultAsync<LanguageModel, ChromiumAIError>,
+	text: string,
+	tools: readonly Tool<never>[],
+	scheduled: ScheduledCall,
+	options?: RunWithToolsOptions,
+): ResultAsync<ToolRunResult, ChromiumAIError> {
+	const problem = findToolProblem(tools);
+	if (problem) {
+		return errAsync(new InvalidInputError(problem, { api: "LanguageModel" }));
+	}
+
+	const maxSteps = options?.maxSteps ?? 5;
+	const stepSchema: JsonSchema = {
+		anyOf: [...tools.map(toolCallSchema), answerSchema],
+	};
+	const signal = options?.promptOptions?.signal;
+
+	return acquireSession({
+		...options?.sessionOptions,
+		initialPrompts: [
+			{
+				role: "system",
+				content: buildSystemPrompt(tools, options?.systemPrompt),
+			},
+		],
+	}).andThen((session) =>
+		ResultAsync.fromPromise(
+			(async (): Promise<ToolRunResult> => {
+				try {
+					const trace: ToolCallRecord[] = [];
+					let input = text;
+
+					for (;;) {
+						const canCallTools = trace.length < maxSteps;
+						const schema = canCallTools ? stepSchema : answerSchema;
+						if (!canCallTools) {
+							input = `${input}\n\n${FINAL_ANSWER_REQUEST}`;
+						}
+
+						// Each prompt takes its own slot, so handlers run without one
+						const response = await scheduled(async () => {
+							const prepared = withPromptTimeout(options?.timeout, {
+								...options?.promptOptions,
+								responseConstraint: schema,
+							});
+							try {
+								return await session.prompt(input, prepared.promptOptions);
+							} catch (error) {
+								throw prepared.toError(error);
+							} finally {
+								prepared.clear();
+							}
+						});
+
+						let step: unknown;
+						try {
+							step = JSON.parse(response);
+						} catch (error) {
+							throw new StructuredOutputError(1, response, [
+								`response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+							]);
+						}
+						const issues = validateJsonSchema(step, schema);
+						if (issues.length > 0) {
+							throw new StructuredOutputError(1, response, issues);
+						}
+
+						const parsed = step as ToolStep;
+						if ("answer" in parsed) {
+							return { answer: parsed.answer, trace };
+						}
+
+						const tool = tools.find(({ name }) => name === parsed.tool);
+						const record: ToolCallRecord = {
+							tool: parsed.tool,
+							arguments: parsed.arguments,
+						};
+						trace.push(record);
+						try {
+							record.result = await tool?.handler(parsed.arguments as never, {
+								signal,
+								step: trace.length,
+							});
+							input = `Result of ${parsed.tool}: ${JSON.stringify(record.result) ?? "undefined"}`;
+						} catch (error) {
+							record.error =
+								error instanceof Error ? error.message : String(error);
+							input = `${parsed.tool} failed: ${record.error}`;
+						}
+					}
+				} finally {
+					session.destroy();
+				}
+			})(),
+			(error) =>
+				toChromiumAIError(
+					error,
+					"LanguageModel",
+					(message, details) =>
+						new OperationFailedError(`Tool run failed: ${message}`, details),
+				),
+		),
+	);
+}
@@ -0,0 +1,173 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { err, ok, type Result, ResultAsync } from "neverthrow";
+import { initDetector } from "./detector-safe";
+import { type ChromiumAIError, InvalidInputError } from "./errors";
+import { createLru } from "./lru";
+import { initTranslator } from "./translator-safe";
+import type {
+	HubTranslation,
+	SafeTranslationHub,
+	SafeTranslatorInstance,
+	TranslationHubOptions,
+} from "./types";
+import { sameLanguage } from "./utils";
+
+type PendingTranslator = Promise<
+	Result<SafeTranslatorInstance, ChromiumAIError>
+>;
+
+interface TranslatorEntry {
+	translator: PendingTranslator;
+	/** `translate()` calls in progress; an evicted translator waits for them */
+	running: number;
+	evicted: boolean;
+}
+
+function destroyTranslator(entry: TranslatorEntry): void {
+	void entry.translator.then((translator) => {
+		if (translator.isOk()) {
+			translator.value.destroy();
+		}
+	});
+}
+
+/**
+ * Initializes a hub that translates text in any detected language into one
+ * target language. The Language Detector is initialized up front; translators
+ * are initialized on first use of each language pair and cached.
+ *
+ * @param options Target language, confidence threshold and cache size
+ * @returns A Result containing a SafeTranslationHub or a ChromiumAIError
+ *
+ * @example
+ * const result = await initTranslationHub({ targetLanguage: "en" });
+ * result.match(
+ *   (hub) => hub.translate("Bonjour le monde"),
+ *   (error) => console.error(error.message)
+ * );
+ */
+export function initTranslationHub(
+	options: TranslationHubOptions,
+): ResultAsync<SafeTranslationHub, ChromiumAIError> {
+	const minConfidence = options.minConfidence ?? 0.5;
+
+	return initDetector({ monitor: options.monitor }).map((detector) => {
+		const translators = createLru<string, TranslatorEntry>(
+			options.maxTranslators ?? 3,
+			(entry) => {
+				entry.evicted = true;
+				if (entry.running === 0) {
+					destroyTranslator(entry);
+				}
+			},
+		);
+
+		const getEntry = (sourceLanguage: string): TranslatorEntry => {
+			const cached = translators.get(sourceLanguage);
+			if (cached) {
+				return cached;
+			}
+
+			const entry: TranslatorEntry = {
+				translator: Promise.resolve(
+					initTranslator({
+						sourceLanguage,
+						targetLanguage: options.targetLanguage,
+						monitor: options.monitor,
+					}),
+				),
+				running: 0,
+				evicted: false,
+			};
+			translators.set(sourceLanguage, entry);
+			// A pair that failed to initialize is retried on the next call.
+			void entry.translator.then((translator) => {
+				if (translator.isErr() && translators.peek(sourceLanguage) === entry) {
+					translators.delete(sourceLanguage);
+				}
+			});
+			return entry;
+		};
+
+		/** Translates with the cached translator, which is not destroyed while in use */
+		const translateWith = (
+			sourceLanguage: string,
+			text: string,
+			signal: AbortSignal | undefined,
+		): ResultAsync<string, ChromiumAIError> => {
+			const entry = getEntry(sourceLanguage);
+			entry.running++;
+			return new ResultAsync(
+				(async (): Promise<Result<string, ChromiumAIError>> => {
+					try {
+						const translator = await entry.translator;
+						return translator.isErr()
+							? err(translator.error)
+							: await translator.value.translate(text, signal);
+					} finally {
+						entry.running--;
+						if (entry.evicted && entry.running === 0) {
+							destroyTranslator(entry);
+						}
+					}
+				})(),
+			);
+		};
+
+		/**
+		 * Picks the source language: the most confident detection if it clears
+		 * the threshold, otherwise the fallback, otherwise an error.
+		 */
+		const resolveSource = (
+			detections: LanguageDetectionResult[],
+		): Result<{ language: string; confidence: number }, ChromiumAIError> => {
+			const best = detections[0];
+			const language = best?.detectedLanguage;
+			const confidence = best?.confidence ?? 0;
+			if (language && language !== "und" && confidence >= minConfidence) {
+				return ok({ language, confidence });
+			}
+			if (options.fallbackSourceLanguage !== undefined) {
+				return ok({ language: options.fallbackSourceLanguage, confidence });
+			}
+			return err(
+				new InvalidInputError(
+					`Could not detect the language of the text with confidence ${minConfidence} or higher${language ? ` (best guess "${language}" at ${confidence})` : ""}`,
+					{ api: "Language Detector" },
+				),
+			);
+		};
+
+		const hub: SafeTranslationHub = {
+			translate: (text, signal) =>
+				detector
+					.detect(text, signal)
+					.andThen(resolveSource)
+					.andThen(({ language, confidence }) => {
+						if (sameLanguage(language, options.targetLanguage)) {
+							return ok<HubTranslation, ChromiumAIError>({
+								text,
+								sourceLanguage: language,
+								confidence,
+								translated: false,
+							});
+						}
+						return translateWith(language, text, signal).map(
+							(translated): HubTranslation => ({
+								text: translated,
+								sourceLanguage: language,
+								confidence,
+								translated: true,
+							}),
+						);
+					}),
+			destroy: () => {
+				translators.clear();
+				detector.destroy();
+			},
+		};
+
+		return hub;
+	});
+}
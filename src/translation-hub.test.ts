@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslationHub } from "./translation-hub";
+import { initTranslationHub as safeInitTranslationHub } from "./translation-hub-safe";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+// Each input is "<language>:<confidence> <text>", e.g. "fr:0.9 Bonjour".
+function installHubFakes() {
+	fakes = installChromiumAIFakes({
+		languageDetector: {
+			respond: (input) => {
+				const [language = "und", confidence = "0"] =
+					input.split(" ")[0]?.split(":") ?? [];
+				return [{ detectedLanguage: language, confidence: Number(confidence) }];
+			},
+		},
+		translator: {
+			respond: (input, session) =>
+				`${session.sourceLanguage}->${session.targetLanguage}: ${input}`,
+		},
+	});
+}
+
+describe("initTranslationHub", () => {
+	it("fails when the Language Detector is missing", async () => {
+		fakes = installChromiumAIFakes({ languageDetector: false });
+
+		const result = await safeInitTranslationHub({ targetLanguage: "en" });
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ApiNotPresent");
+	});
+
+	it("translates from the detected language and caches the translator", async () => {
+		installHubFakes();
+		const hub = await initTranslationHub({ targetLanguage: "en" });
+
+		const first = await hub.translate("fr:0.9 Bonjour");
+		await hub.translate("fr:0.8 Salut");
+
+		expect(first).toEqual({
+			text: "fr->en: fr:0.9 Bonjour",
+			sourceLanguage: "fr",
+			confidence: 0.9,
+			translated: true,
+		});
+		expect(fakes.translator.createCalls).toEqual([
+			expect.objectContaining({ sourceLanguage: "fr", targetLanguage: "en" }),
+		]);
+	});
+
+	it("returns the text unchanged when it is already in the target language", async () => {
+		installHubFakes();
+		const hub = await initTranslationHub({ targetLanguage: "en" });
+
+		const result = await hub.translate("en-US:0.9 Hello");
+
+		expect(result).toMatchObject({
+			text: "en-US:0.9 Hello",
+			translated: false,
+		});
+		expect(fakes.translator.createCalls).toHaveLength(0);
+	});
+
+	it("rejects low-confidence detections unless a fallback is set", async () => {
+		installHubFakes();
+		const strict = (
+			await safeInitTranslationHub({ targetLanguage: "en", minConfidence: 0.7 })
+		)._unsafeUnwrap();
+		const lenient = (
+			await safeInitTranslationHub({
+				targetLanguage: "en",
+				minConfidence: 0.7,
+				fallbackSourceLanguage: "de",
+			})
+		)._unsafeUnwrap();
+
+		const error = (await strict.translate("fr:0.4 Bonjour"))._unsafeUnwrapErr();
+		const fallback = await lenient.translate("fr:0.4 Hallo");
+
+		expect(error.kind).toBe("InvalidInput");
+		expect(error.api).toBe("Language Detector");
+		expect(error.message).toContain('best guess "fr" at 0.4');
+		expect(fallback._unsafeUnwrap()).toMatchObject({
+			sourceLanguage: "de",
+			translated: true,
+		});
+	});
+
+	it("destroys the least recently used translator beyond the limit", async () => {
+		installHubFakes();
+		const hub = await initTranslationHub({
+			targetLanguage: "en",
+			maxTranslators: 2,
+		});
+
+		await hub.translate("fr:0.9 Bonjour");
+		await hub.translate("de:0.9 Hallo");
+		await hub.translate("fr:0.9 Salut");
+		await hub.translate("es:0.9 Hola");
+		await Promise.resolve();
+
+		const destroyed = fakes.translator.sessions
+			.filter((session) => session.destroyed)
+			.map((session) => session.sourceLanguage);
+		expect(destroyed).toEqual(["de"]);
+	});
+
+	it("waits for a running translation before destroying its evicted translator", async () => {
+		installHubFakes();
+		fakes.translator.latency = 20;
+		const hub = (
+			await safeInitTranslationHub({ targetLanguage: "en", maxTranslators: 1 })
+		)._unsafeUnwrap();
+
+		const results = await Promise.all([
+			hub.translate("fr:0.9 Bonjour"),
+			hub.translate("de:0.9 Hallo"),
+		]);
+		await Promise.resolve();
+
+		expect(results.map((result) => result._unsafeUnwrap().text)).toEqual([
+			"fr->en: fr:0.9 Bonjour",
+			"de->en: de:0.9 Hallo",
+		]);
+		const destroyed = fakes.translator.sessions
+			.filter((session) => session.destroyed)
+			.map((session) => session.sourceLanguage);
+		expect(destroyed).toEqual(["fr"]);
+	});
+
+	it("retries a language pair that failed to initialize", async () => {
+		installHubFakes();
+		fakes.translator.availability = "unavailable";
+		const hub = (
+			await safeInitTranslationHub({ targetLanguage: "en" })
+		)._unsafeUnwrap();
+
+		const failed = await hub.translate("fr:0.9 Bonjour");
+		fakes.translator.availability = "available";
+		const retried = await hub.translate("fr:0.9 Bonjour");
+
+		expect(failed._unsafeUnwrapErr().kind).toBe("ModelUnavailable");
+		expect(retried.isOk()).toBe(true);
+	});
+
+	it("destroys the detector and every translator", async () => {
+		installHubFakes();
+		const hub = await initTranslationHub({ targetLanguage: "en" });
+		await hub.translate("fr:0.9 Bonjour");
+
+		hub.destroy();
+		await Promise.resolve();
+
+		expect(fakes.languageDetector.sessions[0]?.destroyed).toBe(true);
+		expect(fakes.translator.sessions[0]?.destroyed).toBe(true);
+	});
+});
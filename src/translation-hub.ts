@@ -0,0 +1,33 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import * as Safe from "./translation-hub-safe";
+import type { TranslationHub, TranslationHubOptions } from "./types";
+import { okOrThrow } from "./utils";
+
+/**
+ * Initializes a hub that translates text in any detected language into one
+ * target language. The Language Detector is initialized up front; translators
+ * are initialized on first use of each language pair and cached.
+ *
+ * @param options Target language, confidence threshold and cache size
+ * @returns A TranslationHub
+ * @throws {Error} If the Language Detector cannot be initialized
+ *
+ * @example
+ * const hub = await initTranslationHub({ targetLanguage: "en" });
+ * const { text, sourceLanguage } = await hub.translate("Bonjour le monde");
+ */
+export async function initTranslationHub(
+	options: TranslationHubOptions,
+): Promise<TranslationHub> {
+	const safeInstance = await Safe.initTranslationHub(options);
+	const safe = okOrThrow(safeInstance);
+
+	return {
+		translate: async (text, signal) => {
+			const result = await safe.translate(text, signal);
+			return okOrThrow(result);
+		},
+		destroy: () => safe.destroy(),
+	};
+}
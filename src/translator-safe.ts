@@ -1,16 +1,125 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import { errAsync, ResultAsync } from "neverthrow";
-import type { SafeTranslatorInstance } from "./types";
-import { checkAvailability } from "./utils";
+import { runBatch } from "./batch";
+import { createResponseCache } from "./cache";
+import { splitIntoSeparatedChunks } from "./chunking";
+import { restoreSpans, segmentDocument } from "./document";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import { resolveRetryPolicy, withRetry } from "./retry";
+import {
+	runScheduled,
+	runScheduledStream,
+	type ScheduledCall,
+	scheduleCalls,
+} from "./scheduler";
+import type {
+	SafeTranslatorInstance,
+	TranslateDocumentOptions,
+	TranslatorInitOptions,
+} from "./types";
+import {
+	checkAvailability,
+	initFailure,
+	iterateStream,
+	mapConcurrent,
+	prepareInit,
+} from "./utils";
+
+function translateFailure(error: unknown): ChromiumAIError {
+	return toChromiumAIError(
+		error,
+		"Translator",
+		(message, details) =>
+			new OperationFailedError(`Translation failed: ${message}`, details),
+	);
+}
+
+/** Splits `text` into its leading whitespace, its content and its trailing whitespace. */
+function splitWhitespace(text: string): [string, string, string] {
+	const [, leading = "", core = "", trailing = ""] =
+		/^(\s*)([\s\S]*?)(\s*)$/.exec(text) ?? [];
+	return [leading, core, trailing];
+}
+
+/**
+ * Translates one segment, keeping its leading and trailing whitespace.
+ * A segment over the input quota is split into sentence-bounded chunks.
+ */
+async function translateSegment(
+	translator: Translator,
+	segment: string,
+	signal: AbortSignal | undefined,
+	scheduled: ScheduledCall,
+): Promise<string> {
+	const [leading, core, trailing] = splitWhitespace(segment);
+	const translateOptions = signal ? { signal } : undefined;
+	const fits = async (chunk: string) =>
+		(await scheduled(() =>
+			translator.measureInputUsage(chunk, translateOptions),
+		)) <= translator.inputQuota;
+	const translate = (input: string) =>
+		scheduled(() => translator.translate(input, translateOptions));
+
+	signal?.throwIfAborted();
+	if (await fits(core)) {
+		return `${leading}${await translate(core)}${trailing}`;
+	}
+
+	// Each chunk keeps the whitespace after it, which is not always a space
+	const translatedChunks: string[] = [];
+	for (const chunk of await splitIntoSeparatedChunks(core, fits)) {
+		signal?.throwIfAborted();
+		const [chunkLeading, chunkCore, chunkTrailing] = splitWhitespace(chunk);
+		translatedChunks.push(
+			chunkCore
+				? `${chunkLeading}${await translate(chunkCore)}${chunkTrailing}`
+				: chunk,
+		);
+	}
+	return `${leading}${translatedChunks.join("")}${trailing}`;
+}
+
+async function translateDocument(
+	translator: Translator,
+	text: string,
+	scheduled: ScheduledCall,
+	options?: TranslateDocumentOptions,
+): Promise<string> {
+	const parts = segmentDocument(text, options?.format ?? "plain");
+	const translated = await mapConcurrent(
+		parts,
+		options?.concurrency ?? 2,
+		async (part) =>
+			part.translate
+				? restoreSpans(
+						await translateSegment(
+							translator,
+							part.source,
+							options?.signal,
+							scheduled,
+						),
+						part.spans,
+					)
+				: part.text,
+	);
+	return translated.join("");
+}
 
 /**
  * Initializes the Translator API for a specific language pair by checking
  * availability and triggering model download.
- * Returns a safe instance object with `.translate()` and `.createSession()` methods.
+ * Returns a safe instance object with `.translate()`, `.translateStreaming()`, `.translateMany()`,
+ * `.translateDocument()` and `.createSession()` methods.
  *
- * @param options Language pair options (sourceLanguage, targetLanguage)
- * @returns A Result containing a SafeTranslatorInstance or an Error
+ * @param options Language pair options (sourceLanguage, targetLanguage), an optional cache, retry policy and scheduler
+ * @returns A Result containing a SafeTranslatorInstance or a ChromiumAIError
  *
  * @example
  * const result = await initTranslator({ sourceLanguage: "en", targetLanguage: "es" });
@@ -20,41 +129,141 @@ import { checkAvailability } from "./utils";
  * );
  */
 export function initTranslator(
-	options: TranslatorCreateOptions,
-): ResultAsync<SafeTranslatorInstance, Error> {
+	options: TranslatorInitOptions,
+): ResultAsync<SafeTranslatorInstance, ChromiumAIError> {
+	const {
+		cache: cacheOptions,
+		retry: retryPolicy,
+		scheduler,
+		onProgress,
+		timeout,
+		...createOptions
+	} = options;
+	const cache = cacheOptions ? createResponseCache(cacheOptions) : undefined;
+
 	if (typeof Translator === "undefined") {
 		return errAsync(
-			new Error(
+			new ApiNotPresentError(
 				"Translator API is not available in this browser. Ensure you are using Chrome 138+ or a supported Chromium-based browser.",
+				{ api: "Translator" },
 			),
 		);
 	}
 
-	return checkAvailability(
-		() => Translator.availability(options),
+	const init = prepareInit("Translator", {
+		...createOptions,
+		onProgress,
+		timeout,
+	});
+	const initialized = checkAvailability(
+		() => Translator.availability(createOptions),
 		"Translator",
-	).andThen(() =>
+	).andThen((availability) =>
 		ResultAsync.fromPromise(
 			(async () => {
 				// Create and keep the session alive for reuse
-				const translator = await Translator.create(options);
+				const translator = await Translator.create({
+					...createOptions,
+					...init.createOptions,
+				});
 
 				const instance: SafeTranslatorInstance = {
-					translate: (text, signal) =>
+					translate: (text, signal, callOptions) => {
+						const run = () =>
+							withRetry(
+								resolveRetryPolicy(retryPolicy, callOptions?.retry),
+								signal,
+								() =>
+									runScheduled(
+										scheduler,
+										{ priority: callOptions?.priority, signal },
+										() =>
+											ResultAsync.fromPromise(
+												translator.translate(
+													text,
+													signal ? { signal } : undefined,
+												),
+												translateFailure,
+											),
+									),
+							);
+						return cache
+							? cache.wrap(
+									[
+										"Translator.translate",
+										createOptions.sourceLanguage,
+										createOptions.targetLanguage,
+										text,
+									],
+									callOptions?.cache,
+									run,
+								)
+							: run();
+					},
+					translateStreaming: (text, signal, callOptions) =>
+						runScheduledStream(
+							scheduler,
+							{ priority: callOptions?.priority, signal },
+							() =>
+								iterateStream(
+									() =>
+										translator.translateStreaming(
+											text,
+											signal ? { signal } : undefined,
+										),
+									translateFailure,
+								),
+						),
+					translateMany: (texts, batchOptions) => {
+						const {
+							concurrency: _concurrency,
+							onProgress: _onProgress,
+							signal,
+							...callOptions
+						} = batchOptions ?? {};
+						return runBatch(texts, batchOptions, "Translator", (text) =>
+							instance.translate(text, signal, callOptions),
+						);
+					},
+					translateDocument: (text, documentOptions) =>
 						ResultAsync.fromPromise(
-							translator.translate(text, signal ? { signal } : undefined),
-							(error) =>
-								error instanceof Error
-									? error
-									: new Error(`Translation failed: ${String(error)}`),
+							translateDocument(
+								translator,
+								text,
+								scheduleCalls(scheduler, {
+									priority: documentOptions?.priority,
+									signal: documentOptions?.signal,
+								}),
+								documentOptions,
+							),
+							translateFailure,
 						),
-					createSession: () =>
-						ResultAsync.fromPromise(Translator.create(options), (error) =>
-							error instanceof Error
-								? error
-								: new Error(
-										`Failed to create Translator session: ${String(error)}`,
-									),
+					createSession: (callOptions) =>
+						withRetry(
+							resolveRetryPolicy(retryPolicy, callOptions?.retry),
+							createOptions.signal,
+							() =>
+								runScheduled(
+									scheduler,
+									{
+										priority: callOptions?.priority,
+										signal: createOptions.signal,
+									},
+									() =>
+										ResultAsync.fromPromise(
+											Translator.create(createOptions),
+											(error) =>
+												toChromiumAIError(
+													error,
+													"Translator",
+													(message, details) =>
+														new SessionCreateFailedError(
+															`Failed to create Translator session: ${message}`,
+															details,
+														),
+												),
+										),
+								),
 						),
 					destroy: () => translator.destroy(),
 				};
@@ -62,9 +271,13 @@ export function initTranslator(
 				return instance;
 			})(),
 			(error) =>
-				error instanceof Error
-					? error
-					: new Error(`Failed to initialize Translator: ${String(error)}`),
+				toChromiumAIError(
+					error,
+					"Translator",
+					initFailure(availability, "Translator"),
+				),
 		),
 	);
+
+	return initialized.map(init.succeeded).mapErr(init.failed);
 }
@@ -0,0 +1,299 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initTranslator } from "./translator";
+import { initTranslator as safeInitTranslator } from "./translator-safe";
+
+const pair = { sourceLanguage: "en", targetLanguage: "es" };
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initTranslator", () => {
+	it("fails with ApiNotPresent when the global is missing", async () => {
+		fakes = installChromiumAIFakes({ translator: false });
+
+		const result = await safeInitTranslator(pair);
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ApiNotPresent");
+	});
+
+	it("checks availability for the requested pair", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				availability: (options) =>
+					options?.targetLanguage === "es" ? "available" : "unavailable",
+			},
+		});
+
+		expect((await safeInitTranslator(pair)).isOk()).toBe(true);
+		expect(
+			(
+				await safeInitTranslator({ ...pair, targetLanguage: "xx" })
+			)._unsafeUnwrapErr().kind,
+		).toBe("ModelUnavailable");
+	});
+
+	it("keeps one session alive for translate and destroys it on destroy", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { respond: (input) => `¡${input}!` },
+		});
+		const translator = await initTranslator(pair);
+
+		await expect(translator.translate("Hola")).resolves.toBe("¡Hola!");
+		await expect(translator.translate("Adiós")).resolves.toBe("¡Adiós!");
+		expect(fakes.translator.sessions).toHaveLength(1);
+
+		translator.destroy();
+		expect(fakes.translator.sessions[0]?.destroyed).toBe(true);
+	});
+
+	it("reports download progress and aborts the download", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { availability: "downloadable", downloadDelay: 10 },
+		});
+		const controller = new AbortController();
+		const progress: number[] = [];
+
+		const result = await safeInitTranslator({
+			...pair,
+			signal: controller.signal,
+			onProgress: (fraction) => {
+				progress.push(fraction);
+				controller.abort();
+			},
+		});
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Aborted");
+		expect(progress).toEqual([0]);
+		expect(fakes.translator.sessions).toHaveLength(0);
+	});
+
+	it("reports an aborted translation as Aborted", async () => {
+		fakes = installChromiumAIFakes({ translator: { latency: 50 } });
+		const translator = (await safeInitTranslator(pair))._unsafeUnwrap();
+		const controller = new AbortController();
+
+		const pending = translator.translate("Hello", controller.signal);
+		controller.abort();
+
+		expect((await pending)._unsafeUnwrapErr().kind).toBe("Aborted");
+	});
+
+	it("reports an unrecognized failure as OperationFailed", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: () => {
+					throw new Error("GPU process crashed");
+				},
+			},
+		});
+		const translator = (await safeInitTranslator(pair))._unsafeUnwrap();
+
+		const error = (await translator.translate("Hello"))._unsafeUnwrapErr();
+
+		expect(error.kind).toBe("OperationFailed");
+		expect(error.message).toBe("Translation failed: GPU process crashed");
+	});
+});
+
+describe("translateDocument", () => {
+	it("translates Markdown prose and keeps code and link targets", async () => {
+		fakes = installChromiumAIFakes({
+			translator: { respond: (input) => input.toUpperCase() },
+		});
+		const translator = await initTranslator(pair);
+
+		const result = await translator.translateDocument(
+			[
+				"## Install",
+				"",
+				"Run `npm install` then see [docs](https://example.com/docs).",
+				"",
+				"```sh",
+				"echo hello",
+				"```",
+			].join("\n"),
+			{ format: "markdown" },
+		);
+
+		expect(result).toBe(
+			[
+				"## INSTALL",
+				"",
+				"RUN `npm install` THEN SEE [DOCS](https://example.com/docs).",
+				"",
+				"```sh",
+				"echo hello",
+				"```",
+			].join("\n"),
+		);
+	});
+
+	it("makes one translate call per paragraph", async () => {
+		const inputs: string[] = [];
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: (input) => {
+					inputs.push(input);
+					return input.toUpperCase();
+				},
+			},
+		});
+		const translator = await initTranslator(pair);
+
+		const result = await translator.translateDocument(
+			[
+				"Run `pnpm install` and read",
+				"[the guide](https://example.com/guide).",
+				"",
+				"Then start the server.",
+			].join("\n"),
+			{ format: "markdown", concurrency: 1 },
+		);
+
+		expect(inputs).toEqual([
+			"Run ⟦0⟧ and read ⟦1⟧the guide⟦2⟧.",
+			"Then start the server.",
+		]);
+		expect(result).toBe(
+			"RUN `pnpm install` AND READ [THE GUIDE](https://example.com/guide).\n\nTHEN START THE SERVER.",
+		);
+	});
+
+	it("splits a paragraph over the input quota into sentences", async () => {
+		const inputs: string[] = [];
+		fakes = installChromiumAIFakes({
+			translator: {
+				inputQuota: 5,
+				countTokens: (input) => input.split(" ").length,
+				respond: (input) => {
+					inputs.push(input);
+					return input.toUpperCase();
+				},
+			},
+		});
+		const translator = await initTranslator(pair);
+
+		const result = await translator.translateDocument(
+			"One two three. Four five six.\n\nSeven.",
+			{ concurrency: 1 },
+		);
+
+		expect(inputs).toEqual(["One two three.", "Four five six.", "Seven."]);
+		expect(result).toBe("ONE TWO THREE. FOUR FIVE SIX.\n\nSEVEN.");
+	});
+
+	it("keeps the original separator between chunks", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				inputQuota: 5,
+				countTokens: (input) => input.split(" ").length,
+				// Like a Japanese target: no spaces between sentences
+				respond: (input) => (input.startsWith("One") ? "一二三。" : "四五六。"),
+			},
+		});
+		const translator = await initTranslator(pair);
+
+		const result = await translator.translateDocument(
+			"One two three.\nFour five six seven.",
+		);
+
+		expect(result).toBe("一二三。\n四五六。");
+	});
+
+	it("limits how many segments are translated at once", async () => {
+		let inFlight = 0;
+		let maxInFlight = 0;
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: async (input) => {
+					inFlight++;
+					maxInFlight = Math.max(maxInFlight, inFlight);
+					await new Promise((resolve) => setTimeout(resolve, 5));
+					inFlight--;
+					return input;
+				},
+			},
+		});
+		const translator = await initTranslator(pair);
+
+		await translator.translateDocument("a\n\nb\n\nc\n\nd\n\ne", {
+			concurrency: 3,
+		});
+
+		expect(maxInFlight).toBe(3);
+	});
+
+	it("stops translating once the signal is aborted", async () => {
+		fakes = installChromiumAIFakes({ translator: { latency: 5 } });
+		const translator = (await safeInitTranslator(pair))._unsafeUnwrap();
+		const controller = new AbortController();
+		controller.abort();
+
+		const result = await translator.translateDocument("Hello\n\nWorld", {
+			signal: controller.signal,
+		});
+
+		expect(result._unsafeUnwrapErr().kind).toBe("Aborted");
+		expect(fakes.translator.sessions[0]?.destroyed).toBe(false);
+	});
+});
+
+describe("translateStreaming", () => {
+	it("streams the translation", async () => {
+		fakes = installChromiumAIFakes();
+		const translator = await initTranslator(pair);
+
+		const chunks: string[] = [];
+		for await (const chunk of translator.translateStreaming("Good morning")) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.join("")).toBe("[es] Good morning");
+	});
+
+	it("throws with the same message as translate", async () => {
+		fakes = installChromiumAIFakes({
+			translator: {
+				respond: () => {
+					throw new Error("Model crashed");
+				},
+			},
+		});
+		const translator = await initTranslator(pair);
+
+		const consume = async () => {
+			for await (const _chunk of translator.translateStreaming("Hi")) {
+				// drain
+			}
+		};
+
+		await expect(consume()).rejects.toThrow(
+			"Translation failed: Model crashed",
+		);
+		await expect(translator.translate("Hi")).rejects.toThrow(
+			"Translation failed: Model crashed",
+		);
+	});
+
+	it("yields Aborted when the signal aborts", async () => {
+		fakes = installChromiumAIFakes();
+		const translator = (await safeInitTranslator(pair))._unsafeUnwrap();
+		const controller = new AbortController();
+		controller.abort();
+
+		const results = [];
+		for await (const result of translator.translateStreaming(
+			"Hello",
+			controller.signal,
+		)) {
+			results.push(result);
+		}
+
+		expect(results).toHaveLength(1);
+		expect(results[0]?._unsafeUnwrapErr().kind).toBe("Aborted");
+	});
+});
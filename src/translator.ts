@@ -1,15 +1,16 @@
 /// <reference types="@types/dom-chromium-ai" />
 
 import * as Safe from "./translator-safe";
-import type { TranslatorInstance } from "./types";
-import { okOrThrow } from "./utils";
+import type { TranslatorInitOptions, TranslatorInstance } from "./types";
+import { okOrThrow, okOrThrowIterable } from "./utils";
 
 /**
  * Initializes the Translator API for a specific language pair by checking
  * availability and triggering model download.
- * Returns an instance object with `.translate()` and `.createSession()` methods.
+ * Returns an instance object with `.translate()`, `.translateStreaming()`, `.translateMany()`,
+ * `.translateDocument()` and `.createSession()` methods.
  *
- * @param options Language pair options (sourceLanguage, targetLanguage)
+ * @param options Language pair options (sourceLanguage, targetLanguage), an optional cache, retry policy and scheduler
  * @returns A TranslatorInstance
  * @throws {Error} If initialization fails
  *
@@ -18,18 +19,26 @@ import { okOrThrow } from "./utils";
  * const translated = await translator.translate("Hello");
  */
 export async function initTranslator(
-	options: TranslatorCreateOptions,
+	options: TranslatorInitOptions,
 ): Promise<TranslatorInstance> {
 	const safeInstance = await Safe.initTranslator(options);
 	const safe = okOrThrow(safeInstance);
 
 	return {
-		translate: async (text, signal) => {
-			const result = await safe.translate(text, signal);
+		translate: async (text, signal, callOptions) => {
+			const result = await safe.translate(text, signal, callOptions);
 			return okOrThrow(result);
 		},
-		createSession: async () => {
-			const result = await safe.createSession();
+		translateStreaming: (text, signal, callOptions) =>
+			okOrThrowIterable(safe.translateStreaming(text, signal, callOptions)),
+		translateMany: (texts, batchOptions) =>
+			safe.translateMany(texts, batchOptions),
+		translateDocument: async (text, documentOptions) => {
+			const result = await safe.translateDocument(text, documentOptions);
+			return okOrThrow(result);
+		},
+		createSession: async (callOptions) => {
+			const result = await safe.createSession(callOptions);
 			return okOrThrow(result);
 		},
 		destroy: () => safe.destroy(),
@@ -1,6 +1,15 @@
 /// <reference types="@types/dom-chromium-ai" />
 
-import type { ResultAsync } from "neverthrow";
+import type { Result, ResultAsync } from "neverthrow";
+import type { BatchOptions, BatchResult } from "./batch";
+import type { CacheCallOptions, ResponseCacheOptions } from "./cache";
+import type { DocumentFormat } from "./document";
+import type { ChromiumAIError } from "./errors";
+import type { JsonSchema } from "./json-schema";
+import type { PromptMediaPart } from "./media";
+import type { RetryCallOptions, RetryPolicy } from "./retry";
+import type { ScheduleCallOptions, Scheduler } from "./scheduler";
+import type { CompiledPrompt } from "./template";
 
 /**
  * Information about token usage for a prompt
@@ -13,16 +22,294 @@ export interface TokenUsageInfo {
 	willFit: boolean;
 }
 
+/**
+ * Receives the download progress of one API's model as a fraction from 0 to
+ * 1. `api` is the API's name, e.g. "Translator", so one callback can serve
+ * several init calls.
+ */
+export type InitProgressCallback = (fraction: number, api: string) => void;
+
+/**
+ * Download progress, cancellation and timeout options shared by
+ * `initLanguageModel()`, `initTranslator()`, `initDetector()` and
+ * `initSummarizer()`.
+ */
+export interface InitOptions {
+	/** Called as the model downloads, and with 1 once init succeeds */
+	onProgress?: InitProgressCallback;
+	/** Aborts init, including a model download in progress */
+	signal?: AbortSignal;
+	/** Milliseconds before init fails with a TimeoutError */
+	timeout?: number;
+}
+
 /**
  * Options for initializing the LanguageModel API.
  * Only includes fields that affect model availability and download,
  * not session behavior (system prompt, temperature, etc.).
  */
-export interface LanguageModelInitOptions {
+export interface LanguageModelInitOptions extends InitOptions {
 	expectedInputs?: LanguageModelExpected[];
 	expectedOutputs?: LanguageModelExpected[];
 	monitor?: CreateMonitorCallback;
+	/**
+	 * Serves `prompt()`, `promptStreaming()`, `promptJson()`, `runWithTools()`,
+	 * `withSession()` and `checkTokenUsage()` from clones of warm base sessions,
+	 * one per distinct `sessionOptions`, instead of creating a session per call.
+	 */
+	sessionPool?: SessionPoolOptions;
+	/** Caches `prompt()` responses by prompt, prompt options and session options */
+	cache?: ResponseCacheOptions;
+	/** Retries transient failures of `prompt()` and `createSession()` */
+	retry?: RetryPolicy;
+	/** Queues every call that uses the model behind a shared concurrency limit */
+	scheduler?: Scheduler;
+}
+
+/**
+ * Options for `initTranslator()`: the language pair plus an optional cache
+ * of `translate()` responses.
+ */
+export type TranslatorInitOptions = TranslatorCreateOptions &
+	InitOptions & {
+		cache?: ResponseCacheOptions;
+		/** Retries transient failures of `translate()` and `createSession()` */
+		retry?: RetryPolicy;
+		/** Queues every call that uses the model behind a shared concurrency limit */
+		scheduler?: Scheduler;
+	};
+
+/**
+ * Options for `initDetector()`: the native create options plus the shared
+ * init options.
+ */
+export type DetectorInitOptions = LanguageDetectorCreateOptions &
+	InitOptions & {
+		/** Retries transient failures of `detect()` and `createSession()` */
+		retry?: RetryPolicy;
+		/** Queues every call that uses the model behind a shared concurrency limit */
+		scheduler?: Scheduler;
+	};
+
+/**
+ * Options for `initSummarizer()`: the native create options plus an optional
+ * cache of `summarize()` responses.
+ */
+export type SummarizerInitOptions = SummarizerCreateOptions &
+	InitOptions & {
+		cache?: ResponseCacheOptions;
+		/** Retries transient failures of `summarize()` and `createSession()` */
+		retry?: RetryPolicy;
+		/** Queues every call that uses the model behind a shared concurrency limit */
+		scheduler?: Scheduler;
+	};
+
+/**
+ * Options for the warm session pool.
+ */
+export interface SessionPoolOptions {
+	/** Maximum number of base sessions kept, at least 1. Defaults to 4. */
+	maxSize?: number;
+	/** Milliseconds a base session may go unused before it is destroyed. Defaults to 60000. */
+	idleTimeout?: number;
+}
+
+/**
+ * Options for `promptMany()`: the batch options plus what `prompt()` takes
+ * for each text. The batch's `signal` is passed to every prompt.
+ */
+export interface PromptManyOptions extends BatchOptions {
+	/** Timeout in milliseconds for each prompt */
+	timeout?: number;
+	promptOptions?: Omit<LanguageModelPromptOptions, "signal"> &
+		CacheCallOptions &
+		RetryCallOptions &
+		ScheduleCallOptions;
+	sessionOptions?: LanguageModelCreateOptions;
+}
+
+/**
+ * Options for `promptJson()`.
+ */
+export interface PromptJsonOptions extends ScheduleCallOptions {
+	/** Timeout in milliseconds for each attempt */
+	timeout?: number;
+	promptOptions?: Omit<LanguageModelPromptOptions, "responseConstraint">;
+	sessionOptions?: LanguageModelCreateOptions;
+	/** How many times to re-prompt with the validation errors. Defaults to 2. */
+	maxRepairAttempts?: number;
+}
+
+/**
+ * A local function the model may call from `runWithTools()`. The model's
+ * arguments are constrained to `parameters` and validated before `handler`
+ * runs. Whatever the handler returns is sent back to the model as JSON.
+ */
+export interface Tool<Args = Record<string, unknown>> {
+	/** Unique among the tools passed to one call */
+	name: string;
+	/** Tells the model what the tool does and when to use it */
+	description: string;
+	/** A JSON schema for the arguments object */
+	parameters: JsonSchema;
+	/**
+	 * Runs the tool. A thrown error is reported to the model, which can then
+	 * try another call or answer without it.
+	 */
+	handler(args: Args, context: ToolCallContext): unknown;
+}
+
+/**
+ * Passed to a tool's handler.
+ */
+export interface ToolCallContext {
+	/** The `signal` from the call's `promptOptions`, if any */
 	signal?: AbortSignal;
+	/** The number of this tool call within the run, starting at 1 */
+	step: number;
+}
+
+/**
+ * One tool call made during `runWithTools()`.
+ */
+export interface ToolCallRecord {
+	tool: string;
+	arguments: Record<string, unknown>;
+	/** The handler's return value, if it succeeded */
+	result?: unknown;
+	/** The message of the error the handler threw, if it failed */
+	error?: string;
+}
+
+/**
+ * The final answer of `runWithTools()` and the tool calls that led to it.
+ */
+export interface ToolRunResult {
+	answer: string;
+	trace: ToolCallRecord[];
+}
+
+/**
+ * Options for `runWithTools()`.
+ */
+export interface RunWithToolsOptions extends ScheduleCallOptions {
+	/**
+	 * Tool calls allowed before the model is asked for its final answer.
+	 * Defaults to 5.
+	 */
+	maxSteps?: number;
+	/** Added before the tool instructions in the session's system prompt */
+	systemPrompt?: string;
+	/** Timeout in milliseconds for each prompt */
+	timeout?: number;
+	promptOptions?: Omit<LanguageModelPromptOptions, "responseConstraint">;
+	sessionOptions?: Omit<LanguageModelCreateOptions, "initialPrompts">;
+}
+
+/**
+ * A text message in a conversation's history.
+ */
+export interface ConversationMessage {
+	role: "system" | "user" | "assistant";
+	content: string;
+}
+
+/**
+ * The serializable state of a conversation, as returned by `toJSON()`.
+ * Safe to store with `chrome.storage` or `JSON.stringify()`.
+ */
+export interface ConversationSnapshot {
+	version: 1;
+	messages: ConversationMessage[];
+}
+
+/**
+ * What a managed conversation does when the next prompt would push
+ * `contextUsage` past the threshold:
+ * - "drop-oldest" removes the oldest user/assistant turns
+ * - "summarize" condenses older turns into the system message
+ * - "error" fails the send with a ContextOverflowError
+ */
+export type ContextStrategy = "drop-oldest" | "summarize" | "error";
+
+/**
+ * Passed to `onCompact` once a send on the compacted history has succeeded.
+ */
+export interface ContextCompactionEvent {
+	strategy: Exclude<ContextStrategy, "error">;
+	/** The messages removed from the history */
+	removedMessages: ConversationMessage[];
+	/** The condensed text added to the system message, for "summarize" */
+	summary?: string;
+	contextUsageBefore: number;
+	contextUsageAfter: number;
+	contextWindow: number;
+}
+
+/**
+ * Options for a conversation that manages its own context window.
+ */
+export interface ContextManagementOptions {
+	strategy: ContextStrategy;
+	/** Fraction of `contextWindow` that triggers the strategy. Defaults to 0.9. */
+	threshold?: number;
+	/** Most recent turns kept verbatim by "summarize". Defaults to 2. */
+	keepRecentTurns?: number;
+	onCompact?: (event: ContextCompactionEvent) => void;
+}
+
+/**
+ * Options for `createConversation()`.
+ */
+export interface ConversationOptions {
+	/** Recorded as the first message of the history */
+	systemPrompt?: string;
+	sessionOptions?: Omit<LanguageModelCreateOptions, "initialPrompts">;
+	/**
+	 * Checks each prompt against the context window before sending it.
+	 * Without this, the session silently drops its oldest messages on overflow
+	 * while `messages` keeps them.
+	 */
+	contextManagement?: ContextManagementOptions;
+}
+
+/**
+ * A chat that records its history so it can be saved and restored.
+ * The underlying session is created on the first `send()`.
+ */
+export interface Conversation {
+	/** A copy of the history, including the system prompt if any */
+	readonly messages: readonly ConversationMessage[];
+	/**
+	 * Sends a user message and returns the reply. Both are added to the history
+	 * only if the prompt succeeds. Concurrent sends run in call order.
+	 * With `contextManagement`, the history may be compacted first.
+	 */
+	send(
+		text: string,
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions,
+	): Promise<string>;
+	toJSON(): ConversationSnapshot;
+	/**
+	 * Destroys the session. The history is kept, and a later `send()` opens a
+	 * new session from it.
+	 */
+	destroy(): void;
+}
+
+/**
+ * Safe variant of Conversation where `send()` returns ResultAsync with a ChromiumAIError.
+ */
+export interface SafeConversation {
+	readonly messages: readonly ConversationMessage[];
+	send(
+		text: string,
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	toJSON(): ConversationSnapshot;
+	destroy(): void;
 }
 
 /**
@@ -31,21 +318,109 @@ export interface LanguageModelInitOptions {
  * proves the model has been downloaded and is ready to use.
  */
 export interface LanguageModelInstance {
+	/**
+	 * `text` may be a compiled template; `sessionOptions` are merged over the
+	 * template's.
+	 */
 	prompt(
-		text: string,
+		text: string | CompiledPrompt,
 		timeout?: number,
-		promptOptions?: LanguageModelPromptOptions,
+		promptOptions?: LanguageModelPromptOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+		sessionOptions?: LanguageModelCreateOptions,
+	): Promise<string>;
+	/**
+	 * Prompts with text mixed with images and audio, sent as one user message.
+	 * Throws an InvalidInputError if a part's type is missing from the
+	 * instance's `expectedInputs`.
+	 */
+	promptWithMedia(
+		parts: readonly PromptMediaPart[],
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
 		sessionOptions?: LanguageModelCreateOptions,
 	): Promise<string>;
-	createSession(options?: LanguageModelCreateOptions): Promise<LanguageModel>;
+	/**
+	 * Streams the response chunk by chunk. The iterable throws if the prompt fails.
+	 */
+	promptStreaming(
+		text: string | CompiledPrompt,
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions & ScheduleCallOptions,
+		sessionOptions?: LanguageModelCreateOptions,
+	): AsyncIterable<string>;
+	/**
+	 * Prompts once per text, each in its own one-shot session, and returns
+	 * one Result per text in input order.
+	 */
+	promptMany(
+		texts: readonly string[],
+		options?: PromptManyOptions,
+	): BatchResult<string>;
+	/**
+	 * Prompts with `schema` as the response constraint and returns the parsed,
+	 * validated JSON. Throws a StructuredOutputError if every attempt fails.
+	 */
+	promptJson<T = unknown>(
+		text: string,
+		schema: JsonSchema,
+		options?: PromptJsonOptions,
+	): Promise<T>;
+	/**
+	 * Lets the model call `tools` until it gives a final answer. Each step is
+	 * constrained to either one tool call or the answer; tool results are fed
+	 * back in the same session.
+	 */
+	runWithTools(
+		text: string,
+		// `never` accepts tools with any argument type
+		tools: readonly Tool<never>[],
+		options?: RunWithToolsOptions,
+	): Promise<ToolRunResult>;
+	createSession(
+		options?: LanguageModelCreateOptions,
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): Promise<LanguageModel>;
+	createConversation(options?: ConversationOptions): Conversation;
+	/**
+	 * Rebuilds a conversation from `toJSON()` output (or its JSON string), with
+	 * the saved history as the new session's `initialPrompts`.
+	 * Throws an InvalidInputError if the snapshot is malformed.
+	 */
+	restoreConversation(
+		snapshot: ConversationSnapshot | string,
+		options?: Omit<ConversationOptions, "systemPrompt">,
+	): Conversation;
 	withSession<T>(
 		callback: (session: LanguageModel) => Promise<T>,
 		options?: LanguageModelCreateOptions,
+		callOptions?: ScheduleCallOptions,
 	): Promise<T>;
 	checkTokenUsage(
 		prompt: string,
 		sessionOptions?: LanguageModelCreateOptions,
+		callOptions?: ScheduleCallOptions,
 	): Promise<TokenUsageInfo>;
+	/**
+	 * Destroys the base sessions held by the session pool. The pool warms up
+	 * again on the next call. Does nothing without `sessionPool`.
+	 */
+	dispose(): void;
+}
+
+/**
+ * Options for `translateDocument()`.
+ */
+export interface TranslateDocumentOptions extends ScheduleCallOptions {
+	/** How to find the parts that must stay untranslated. Defaults to "plain". */
+	format?: DocumentFormat;
+	/** Maximum number of segments translated at once. Defaults to 2. */
+	concurrency?: number;
+	signal?: AbortSignal;
 }
 
 /**
@@ -53,8 +428,80 @@ export interface LanguageModelInstance {
  * Returned by `initTranslator()`. Locked to a specific language pair.
  */
 export interface TranslatorInstance {
-	translate(text: string, signal?: AbortSignal): Promise<string>;
-	createSession(): Promise<Translator>;
+	translate(
+		text: string,
+		signal?: AbortSignal,
+		callOptions?: CacheCallOptions & RetryCallOptions & ScheduleCallOptions,
+	): Promise<string>;
+	/**
+	 * Streams the translation chunk by chunk. The iterable throws if the
+	 * translation fails.
+	 */
+	translateStreaming(
+		text: string,
+		signal?: AbortSignal,
+		callOptions?: ScheduleCallOptions,
+	): AsyncIterable<string>;
+	/** Translates each text and returns one Result per text in input order. */
+	translateMany(
+		texts: readonly string[],
+		options?: BatchOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): BatchResult<string>;
+	/**
+	 * Translates a long or Markdown document segment by segment. Code, URLs
+	 * and link targets are kept as-is, and the original structure is preserved.
+	 */
+	translateDocument(
+		text: string,
+		options?: TranslateDocumentOptions,
+	): Promise<string>;
+	createSession(
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): Promise<Translator>;
+	destroy(): void;
+}
+
+/**
+ * Options for `initTranslationHub()`.
+ */
+export interface TranslationHubOptions {
+	targetLanguage: string;
+	/** Minimum detection confidence to trust the detected language. Defaults to 0.5. */
+	minConfidence?: number;
+	/**
+	 * Source language assumed when detection is below `minConfidence`.
+	 * Without it, such text fails with an InvalidInputError.
+	 */
+	fallbackSourceLanguage?: string;
+	/** Translators kept alive; the least recently used is destroyed first. Defaults to 3. */
+	maxTranslators?: number;
+	/** Observes model downloads for the detector and each new language pair */
+	monitor?: CreateMonitorCallback;
+}
+
+/**
+ * The result of `TranslationHub.translate()`.
+ */
+export interface HubTranslation {
+	/** The translated text, or the input if it was already in the target language */
+	text: string;
+	sourceLanguage: string;
+	/** Confidence of the detected source language */
+	confidence: number;
+	/** False when the source already matched the target language */
+	translated: boolean;
+}
+
+/**
+ * Translates text in any detected language into one target language.
+ * Returned by `initTranslationHub()`.
+ */
+export interface TranslationHub {
+	translate(text: string, signal?: AbortSignal): Promise<HubTranslation>;
+	/** Destroys the detector and every cached translator, each once its running calls finish */
 	destroy(): void;
 }
 
@@ -66,13 +513,103 @@ export interface DetectorInstance {
 	detect(
 		text: string,
 		signal?: AbortSignal,
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
 	): Promise<LanguageDetectionResult[]>;
+	/** Detects each text's languages and returns one Result per text in input order. */
+	detectMany(
+		texts: readonly string[],
+		options?: BatchOptions & RetryCallOptions & ScheduleCallOptions,
+	): BatchResult<LanguageDetectionResult[]>;
+	/** Returns the most confident allowed language, or an undetermined result. */
+	detectLanguage(
+		text: string,
+		options?: DetectLanguageOptions,
+	): Promise<LanguageGuess>;
+	/**
+	 * Detects the language of each sentence or paragraph, for mixed-language
+	 * text. Whitespace-only segments are skipped.
+	 */
+	detectSegments(
+		text: string,
+		options?: DetectSegmentsOptions,
+	): Promise<LanguageSegment[]>;
 	createSession(
 		options?: LanguageDetectorCreateOptions,
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
 	): Promise<LanguageDetector>;
 	destroy(): void;
 }
 
+/**
+ * Options for `detectLanguage()`.
+ */
+export interface DetectLanguageOptions
+	extends RetryCallOptions,
+		ScheduleCallOptions {
+	/** Lowest confidence accepted for the best guess. Defaults to 0.5. */
+	minConfidence?: number;
+	/**
+	 * Languages the result may be, compared by primary subtag. Defaults to the
+	 * detector's `expectedInputLanguages`, or any language without them.
+	 */
+	allowedLanguages?: string[];
+	signal?: AbortSignal;
+}
+
+/**
+ * Options for `detectSegments()`.
+ */
+export interface DetectSegmentsOptions extends DetectLanguageOptions {
+	/** Detect per "sentence" or per "paragraph". Defaults to "sentence". */
+	granularity?: "sentence" | "paragraph";
+}
+
+/**
+ * The result of `detectLanguage()`: the most confident allowed language, or
+ * undetermined when none clears `minConfidence`. An "und" result from the
+ * detector is never a determined language.
+ */
+export type LanguageGuess =
+	| { determined: true; language: string; confidence: number }
+	| {
+			determined: false;
+			/** The most confident allowed language below `minConfidence`, if any */
+			bestGuess?: { language: string; confidence: number };
+	  };
+
+/**
+ * One sentence or paragraph of the text passed to `detectSegments()`, with
+ * surrounding whitespace trimmed. `start` and `end` are UTF-16 offsets into
+ * that text.
+ */
+export type LanguageSegment = LanguageGuess & {
+	text: string;
+	start: number;
+	end: number;
+};
+
+/**
+ * Progress of `summarizeLong()`, reported after each chunk is summarized.
+ */
+export interface SummarizeLongProgress {
+	/** 0 while summarizing the original text, then 1, 2, ... for each round of combined summaries */
+	level: number;
+	/** Chunks summarized so far at this level */
+	completed: number;
+	/** Chunks at this level */
+	total: number;
+}
+
+/**
+ * Options for `summarizeLong()`. `context` and `signal` apply to every chunk.
+ */
+export interface SummarizeLongOptions
+	extends SummarizerSummarizeOptions,
+		ScheduleCallOptions {
+	/** Errors thrown by the callback are ignored */
+	onProgress?: (progress: SummarizeLongProgress) => void;
+}
+
 /**
  * An initialized Summarizer instance with bound methods.
  * Returned by `initSummarizer()`.
@@ -80,74 +617,444 @@ export interface DetectorInstance {
 export interface SummarizerInstance {
 	summarize(
 		text: string,
-		summarizeOptions?: SummarizerSummarizeOptions,
+		summarizeOptions?: SummarizerSummarizeOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): Promise<string>;
+	/**
+	 * Streams the summary chunk by chunk. The iterable throws if summarization
+	 * fails.
+	 */
+	summarizeStreaming(
+		text: string,
+		summarizeOptions?: SummarizerSummarizeOptions & ScheduleCallOptions,
+	): AsyncIterable<string>;
+	/** Summarizes each text and returns one Result per text in input order. */
+	summarizeMany(
+		texts: readonly string[],
+		options?: BatchOptions &
+			Omit<SummarizerSummarizeOptions, "signal"> &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): BatchResult<string>;
+	/**
+	 * Summarizes text of any length. Text over the summarizer's input quota is
+	 * split into chunks, and the chunk summaries are summarized again until
+	 * they fit in one call.
+	 */
+	summarizeLong(text: string, options?: SummarizeLongOptions): Promise<string>;
+	createSession(
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): Promise<Summarizer>;
+	destroy(): void;
+}
+
+/**
+ * An initialized Writer instance with bound methods.
+ * Returned by `initWriter()`.
+ */
+export interface WriterInstance {
+	write(text: string, writeOptions?: WriterWriteOptions): Promise<string>;
+	writeStreaming(
+		text: string,
+		writeOptions?: WriterWriteOptions,
+	): AsyncIterable<string>;
+	createSession(): Promise<Writer>;
+	destroy(): void;
+}
+
+/**
+ * An initialized Rewriter instance with bound methods.
+ * Returned by `initRewriter()`.
+ */
+export interface RewriterInstance {
+	rewrite(
+		text: string,
+		rewriteOptions?: RewriterRewriteOptions,
 	): Promise<string>;
-	createSession(): Promise<Summarizer>;
+	rewriteStreaming(
+		text: string,
+		rewriteOptions?: RewriterRewriteOptions,
+	): AsyncIterable<string>;
+	createSession(): Promise<Rewriter>;
+	destroy(): void;
+}
+
+/**
+ * A single correction suggested by the Proofreader.
+ * Offsets are UTF-16 indices into the original input.
+ */
+export interface ProofreadingCorrection {
+	start: number;
+	end: number;
+	/** The slice of the original input being replaced */
+	original: string;
+	replacement: string;
+	/** Empty unless the proofreader was created with `includeCorrectionTypes` */
+	types: CorrectionType[];
+	explanation?: string;
+}
+
+/**
+ * The corrected text plus the individual corrections that produced it.
+ */
+export interface ProofreadingResult {
+	correctedText: string;
+	corrections: ProofreadingCorrection[];
+}
+
+/**
+ * An initialized Proofreader instance with bound methods.
+ * Returned by `initProofreader()`.
+ */
+export interface ProofreaderInstance {
+	proofread(text: string, signal?: AbortSignal): Promise<ProofreadingResult>;
+	createSession(options?: ProofreaderCreateOptions): Promise<Proofreader>;
 	destroy(): void;
 }
 
 /**
- * Safe variant of LanguageModelInstance where methods return ResultAsync.
+ * Safe variant of LanguageModelInstance where methods return ResultAsync with a ChromiumAIError.
  */
 export interface SafeLanguageModelInstance {
+	/**
+	 * `text` may be a compiled template; `sessionOptions` are merged over the
+	 * template's.
+	 */
 	prompt(
-		text: string,
+		text: string | CompiledPrompt,
 		timeout?: number,
-		promptOptions?: LanguageModelPromptOptions,
+		promptOptions?: LanguageModelPromptOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+		sessionOptions?: LanguageModelCreateOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	/**
+	 * Prompts with text mixed with images and audio, sent as one user message.
+	 * Fails with an InvalidInputError if a part's type is missing from the
+	 * instance's `expectedInputs`.
+	 */
+	promptWithMedia(
+		parts: readonly PromptMediaPart[],
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+		sessionOptions?: LanguageModelCreateOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	/**
+	 * Streams the response chunk by chunk. A failure is yielded once as an `err`
+	 * and ends the stream.
+	 */
+	promptStreaming(
+		text: string | CompiledPrompt,
+		timeout?: number,
+		promptOptions?: LanguageModelPromptOptions & ScheduleCallOptions,
 		sessionOptions?: LanguageModelCreateOptions,
-	): ResultAsync<string, Error>;
+	): PromptStreamResult;
+	/**
+	 * Prompts once per text, each in its own one-shot session, and returns
+	 * one Result per text in input order.
+	 */
+	promptMany(
+		texts: readonly string[],
+		options?: PromptManyOptions,
+	): BatchResult<string>;
+	/**
+	 * Prompts with `schema` as the response constraint and returns the parsed,
+	 * validated JSON. Fails with a StructuredOutputError if every attempt fails.
+	 */
+	promptJson<T = unknown>(
+		text: string,
+		schema: JsonSchema,
+		options?: PromptJsonOptions,
+	): ResultAsync<T, ChromiumAIError>;
+	/**
+	 * Lets the model call `tools` until it gives a final answer. Each step is
+	 * constrained to either one tool call or the answer; tool results are fed
+	 * back in the same session.
+	 */
+	runWithTools(
+		text: string,
+		// `never` accepts tools with any argument type
+		tools: readonly Tool<never>[],
+		options?: RunWithToolsOptions,
+	): ResultAsync<ToolRunResult, ChromiumAIError>;
 	createSession(
 		options?: LanguageModelCreateOptions,
-	): ResultAsync<LanguageModel, Error>;
-	withSession<T>(
-		callback: (session: LanguageModel) => ResultAsync<T, Error>,
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<LanguageModel, ChromiumAIError>;
+	createConversation(options?: ConversationOptions): SafeConversation;
+	/**
+	 * Rebuilds a conversation from `toJSON()` output (or its JSON string), with
+	 * the saved history as the new session's `initialPrompts`.
+	 * Fails with an InvalidInputError if the snapshot is malformed.
+	 */
+	restoreConversation(
+		snapshot: ConversationSnapshot | string,
+		options?: Omit<ConversationOptions, "systemPrompt">,
+	): Result<SafeConversation, ChromiumAIError>;
+	withSession<T, E = ChromiumAIError>(
+		callback: (session: LanguageModel) => ResultAsync<T, E>,
 		options?: LanguageModelCreateOptions,
-	): ResultAsync<T, Error>;
+		callOptions?: ScheduleCallOptions,
+	): ResultAsync<T, E | ChromiumAIError>;
 	checkTokenUsage(
 		prompt: string,
 		sessionOptions?: LanguageModelCreateOptions,
-	): ResultAsync<TokenUsageInfo, Error>;
+		callOptions?: ScheduleCallOptions,
+	): ResultAsync<TokenUsageInfo, ChromiumAIError>;
+	dispose(): void;
 }
 
 /**
- * Safe variant of TranslatorInstance where methods return ResultAsync.
+ * Safe variant of TranslatorInstance where methods return ResultAsync with a ChromiumAIError.
  */
 export interface SafeTranslatorInstance {
-	translate(text: string, signal?: AbortSignal): ResultAsync<string, Error>;
-	createSession(): ResultAsync<Translator, Error>;
+	translate(
+		text: string,
+		signal?: AbortSignal,
+		callOptions?: CacheCallOptions & RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	/**
+	 * Streams the translation chunk by chunk. A failure is yielded once as an
+	 * `err` and ends the stream.
+	 */
+	translateStreaming(
+		text: string,
+		signal?: AbortSignal,
+		callOptions?: ScheduleCallOptions,
+	): TranslateStreamResult;
+	/** Translates each text and returns one Result per text in input order. */
+	translateMany(
+		texts: readonly string[],
+		options?: BatchOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): BatchResult<string>;
+	translateDocument(
+		text: string,
+		options?: TranslateDocumentOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	createSession(
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<Translator, ChromiumAIError>;
+	destroy(): void;
+}
+
+/**
+ * Safe variant of TranslationHub where methods return ResultAsync with a ChromiumAIError.
+ */
+export interface SafeTranslationHub {
+	translate(
+		text: string,
+		signal?: AbortSignal,
+	): ResultAsync<HubTranslation, ChromiumAIError>;
 	destroy(): void;
 }
 
 /**
- * Safe variant of DetectorInstance where methods return ResultAsync.
+ * Safe variant of DetectorInstance where methods return ResultAsync with a ChromiumAIError.
  */
 export interface SafeDetectorInstance {
 	detect(
 		text: string,
 		signal?: AbortSignal,
-	): ResultAsync<LanguageDetectionResult[], Error>;
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<LanguageDetectionResult[], ChromiumAIError>;
+	/** Detects each text's languages and returns one Result per text in input order. */
+	detectMany(
+		texts: readonly string[],
+		options?: BatchOptions & RetryCallOptions & ScheduleCallOptions,
+	): BatchResult<LanguageDetectionResult[]>;
+	/** Returns the most confident allowed language, or an undetermined result. */
+	detectLanguage(
+		text: string,
+		options?: DetectLanguageOptions,
+	): ResultAsync<LanguageGuess, ChromiumAIError>;
+	/**
+	 * Detects the language of each sentence or paragraph, for mixed-language
+	 * text. Whitespace-only segments are skipped.
+	 */
+	detectSegments(
+		text: string,
+		options?: DetectSegmentsOptions,
+	): ResultAsync<LanguageSegment[], ChromiumAIError>;
 	createSession(
 		options?: LanguageDetectorCreateOptions,
-	): ResultAsync<LanguageDetector, Error>;
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<LanguageDetector, ChromiumAIError>;
 	destroy(): void;
 }
 
 /**
- * Safe variant of SummarizerInstance where methods return ResultAsync.
+ * Safe variant of SummarizerInstance where methods return ResultAsync with a ChromiumAIError.
  */
 export interface SafeSummarizerInstance {
 	summarize(
 		text: string,
-		summarizeOptions?: SummarizerSummarizeOptions,
-	): ResultAsync<string, Error>;
-	createSession(): ResultAsync<Summarizer, Error>;
+		summarizeOptions?: SummarizerSummarizeOptions &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	/**
+	 * Streams the summary chunk by chunk. A failure is yielded once as an `err`
+	 * and ends the stream.
+	 */
+	summarizeStreaming(
+		text: string,
+		summarizeOptions?: SummarizerSummarizeOptions & ScheduleCallOptions,
+	): SummarizeStreamResult;
+	/** Summarizes each text and returns one Result per text in input order. */
+	summarizeMany(
+		texts: readonly string[],
+		options?: BatchOptions &
+			Omit<SummarizerSummarizeOptions, "signal"> &
+			CacheCallOptions &
+			RetryCallOptions &
+			ScheduleCallOptions,
+	): BatchResult<string>;
+	summarizeLong(
+		text: string,
+		options?: SummarizeLongOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	createSession(
+		callOptions?: RetryCallOptions & ScheduleCallOptions,
+	): ResultAsync<Summarizer, ChromiumAIError>;
+	destroy(): void;
+}
+
+/**
+ * Safe variant of WriterInstance where methods return Results with a ChromiumAIError.
+ */
+export interface SafeWriterInstance {
+	write(
+		text: string,
+		writeOptions?: WriterWriteOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	writeStreaming(
+		text: string,
+		writeOptions?: WriterWriteOptions,
+	): WriteStreamResult;
+	createSession(): ResultAsync<Writer, ChromiumAIError>;
+	destroy(): void;
+}
+
+/**
+ * Safe variant of RewriterInstance where methods return Results with a ChromiumAIError.
+ */
+export interface SafeRewriterInstance {
+	rewrite(
+		text: string,
+		rewriteOptions?: RewriterRewriteOptions,
+	): ResultAsync<string, ChromiumAIError>;
+	rewriteStreaming(
+		text: string,
+		rewriteOptions?: RewriterRewriteOptions,
+	): RewriteStreamResult;
+	createSession(): ResultAsync<Rewriter, ChromiumAIError>;
 	destroy(): void;
 }
 
-export type PromptResult = ResultAsync<string, Error>;
+/**
+ * Safe variant of ProofreaderInstance where methods return ResultAsync with a ChromiumAIError.
+ */
+export interface SafeProofreaderInstance {
+	proofread(
+		text: string,
+		signal?: AbortSignal,
+	): ResultAsync<ProofreadingResult, ChromiumAIError>;
+	createSession(
+		options?: ProofreaderCreateOptions,
+	): ResultAsync<Proofreader, ChromiumAIError>;
+	destroy(): void;
+}
+
+/**
+ * Options for `getCapabilities()`: extra configurations to check on top of
+ * each API's defaults.
+ */
+export interface CapabilityOptions {
+	/** Translator language pairs to check. The Translator has no default pair. */
+	languagePairs?: { sourceLanguage: string; targetLanguage: string }[];
+	/** Prompt API input/output combinations to check, e.g. image input */
+	modalities?: {
+		expectedInputs?: LanguageModelExpected[];
+		expectedOutputs?: LanguageModelExpected[];
+	}[];
+}
+
+/**
+ * Whether one API configuration can be used, without creating a session.
+ */
+export interface ApiCapability {
+	/** Whether the API's global exists in this browser */
+	present: boolean;
+	/** The `availability()` result; undefined when the API is missing or the check failed */
+	availability?: Availability;
+	/** Why the configuration is not ready to use right away; undefined when "available" */
+	reason?: string;
+}
+
+export interface LanguagePairCapability extends ApiCapability {
+	sourceLanguage: string;
+	targetLanguage: string;
+}
+
+export interface ModalityCapability extends ApiCapability {
+	expectedInputs: LanguageModelExpected[];
+	expectedOutputs: LanguageModelExpected[];
+}
+
+/**
+ * The result of `getCapabilities()`. Each API reports the configuration its
+ * `init*` function checks by default; the Translator reports only the
+ * requested pairs.
+ */
+export interface CapabilityReport {
+	languageModel: ApiCapability & { modalities: ModalityCapability[] };
+	translator: Pick<ApiCapability, "present" | "reason"> & {
+		languagePairs: LanguagePairCapability[];
+	};
+	languageDetector: ApiCapability;
+	summarizer: ApiCapability;
+	writer: ApiCapability;
+	rewriter: ApiCapability;
+	proofreader: ApiCapability;
+}
+
+export type PromptResult = ResultAsync<string, ChromiumAIError>;
+
+export type PromptStreamResult = AsyncIterable<Result<string, ChromiumAIError>>;
+
+export type TranslateResult = ResultAsync<string, ChromiumAIError>;
+
+export type TranslateStreamResult = AsyncIterable<
+	Result<string, ChromiumAIError>
+>;
+
+export type DetectResult = ResultAsync<
+	LanguageDetectionResult[],
+	ChromiumAIError
+>;
+
+export type SummarizeResult = ResultAsync<string, ChromiumAIError>;
+
+export type SummarizeStreamResult = AsyncIterable<
+	Result<string, ChromiumAIError>
+>;
+
+export type WriteResult = ResultAsync<string, ChromiumAIError>;
 
-export type TranslateResult = ResultAsync<string, Error>;
+export type WriteStreamResult = AsyncIterable<Result<string, ChromiumAIError>>;
 
-export type DetectResult = ResultAsync<LanguageDetectionResult[], Error>;
+export type RewriteResult = ResultAsync<string, ChromiumAIError>;
 
-export type SummarizeResult = ResultAsync<string, Error>;
+export type RewriteStreamResult = AsyncIterable<
+	Result<string, ChromiumAIError>
+>;
@@ -2,6 +2,17 @@
 
 import { err, ok, type Result, ResultAsync } from "neverthrow";
 import { match } from "ts-pattern";
+import {
+	type ChromiumAIError,
+	type ChromiumAIErrorDetails,
+	DownloadFailedError,
+	ModelUnavailableError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	TimeoutError,
+	toChromiumAIError,
+} from "./errors";
+import type { InitOptions } from "./types";
 
 export function okOrThrow<T, E>(result: Result<T, E>): T {
 	return result.match(
@@ -12,37 +23,299 @@ export function okOrThrow<T, E>(result: Result<T, E>): T {
 	);
 }
 
+/** Expected inputs and outputs used when `initLanguageModel()` is given none */
+export const DEFAULT_LANGUAGE_MODEL_EXPECTED: LanguageModelExpected[] = [
+	{ type: "text", languages: ["en"] },
+];
+
+/** Compares languages by their primary subtag, so "en-US" matches "en". */
+export function sameLanguage(a: string, b: string): boolean {
+	const primary = (language: string) => language.toLowerCase().split("-")[0];
+	return primary(a) === primary(b);
+}
+
 export type ReadyAvailability = "available" | "downloadable" | "downloading";
 
 export function checkAvailability(
 	availabilityFn: () => Promise<Availability>,
 	apiName: string,
-): ResultAsync<ReadyAvailability, Error> {
+): ResultAsync<ReadyAvailability, ChromiumAIError> {
 	return new ResultAsync(
-		(async (): Promise<Result<ReadyAvailability, Error>> => {
+		(async (): Promise<Result<ReadyAvailability, ChromiumAIError>> => {
 			try {
 				const availability = await availabilityFn();
 				return match(availability)
 					.with("unavailable", () =>
-						err<ReadyAvailability, Error>(
-							new Error(
+						err<ReadyAvailability, ChromiumAIError>(
+							new ModelUnavailableError(
 								`${apiName} API is present but the model is unavailable on this device.`,
+								{ api: apiName },
 							),
 						),
 					)
 					.with("downloadable", "downloading", "available", (a) =>
-						ok<ReadyAvailability, Error>(a),
+						ok<ReadyAvailability, ChromiumAIError>(a),
 					)
 					.exhaustive();
 			} catch (error) {
-				return err<ReadyAvailability, Error>(
-					error instanceof Error
-						? error
-						: new Error(
-								`Failed to check ${apiName} availability: ${String(error)}`,
+				return err<ReadyAvailability, ChromiumAIError>(
+					toChromiumAIError(
+						error,
+						apiName,
+						(message, details) =>
+							new ModelUnavailableError(
+								`Failed to check ${apiName} availability: ${message}`,
+								details,
 							),
+					),
 				);
 			}
 		})(),
 	);
 }
+
+/**
+ * Picks the error for a failed `create()` during init. If the model was not
+ * yet local, that call was also the download.
+ */
+export function initFailure(
+	availability: ReadyAvailability,
+	apiName: string,
+): (message: string, details: ChromiumAIErrorDetails) => ChromiumAIError {
+	return (message, details) =>
+		availability === "available"
+			? new SessionCreateFailedError(
+					`Failed to initialize ${apiName}: ${message}`,
+					details,
+				)
+			: new DownloadFailedError(
+					`Failed to download ${apiName}: ${message}`,
+					details,
+				);
+}
+
+/**
+ * Unwraps each Result of an async iterable, throwing the first error encountered.
+ */
+export async function* okOrThrowIterable<T, E>(
+	results: AsyncIterable<Result<T, E>>,
+): AsyncGenerator<T, void, undefined> {
+	for await (const result of results) {
+		yield okOrThrow(result);
+	}
+}
+
+/**
+ * Reads a native ReadableStream as an async iterable of Results.
+ * A stream error is yielded once as an `err` and ends the iteration.
+ * If the consumer stops early, the underlying stream is cancelled.
+ */
+export async function* iterateStream<T, E>(
+	createStream: () => ReadableStream<T>,
+	mapError: (error: unknown) => E,
+): AsyncGenerator<Result<T, E>, void, undefined> {
+	let reader: ReadableStreamDefaultReader<T>;
+	try {
+		reader = createStream().getReader();
+	} catch (error) {
+		yield err(mapError(error));
+		return;
+	}
+
+	let finished = false;
+	try {
+		while (true) {
+			const { done, value } = await reader.read();
+			if (done) {
+				finished = true;
+				return;
+			}
+			yield ok(value);
+		}
+	} catch (error) {
+		finished = true;
+		yield err(mapError(error));
+	} finally {
+		if (!finished) {
+			await reader.cancel().catch(() => undefined);
+		}
+		reader.releaseLock();
+	}
+}
+
+/**
+ * Combines an optional abort signal with an optional timeout into a single
+ * signal. `clear` must be called once the guarded operation settles.
+ */
+function withTimeout(
+	timeout: number | undefined,
+	signal: AbortSignal | undefined,
+): {
+	signal: AbortSignal | undefined;
+	clear: () => void;
+	timedOut: () => boolean;
+} {
+	if (!timeout) {
+		return { signal, clear: () => undefined, timedOut: () => false };
+	}
+
+	let timedOut = false;
+	const timeoutController = new AbortController();
+	const timeoutId = setTimeout(() => {
+		timedOut = true;
+		timeoutController.abort();
+	}, timeout);
+
+	return {
+		signal: signal
+			? AbortSignal.any
+				? AbortSignal.any([signal, timeoutController.signal])
+				: signal
+			: timeoutController.signal,
+		clear: () => clearTimeout(timeoutId),
+		timedOut: () => timedOut,
+	};
+}
+
+/**
+ * Combines the caller's abort signal with an optional timeout into a single
+ * signal on the prompt options. `clear` must be called once the prompt settles.
+ * `toError` reports an abort caused by the timeout as a TimeoutError rather
+ * than a plain abort.
+ */
+export function withPromptTimeout(
+	timeout?: number,
+	promptOptions?: LanguageModelPromptOptions,
+): {
+	promptOptions: LanguageModelPromptOptions;
+	clear: () => void;
+	toError: (error: unknown) => ChromiumAIError;
+} {
+	const guard = withTimeout(timeout, promptOptions?.signal);
+
+	return {
+		promptOptions: guard.signal
+			? { ...promptOptions, signal: guard.signal }
+			: promptOptions || {},
+		clear: guard.clear,
+		toError: (error) =>
+			guard.timedOut()
+				? new TimeoutError(`Prompt timed out after ${timeout}ms`, {
+						api: "LanguageModel",
+						cause: error,
+					})
+				: toChromiumAIError(
+						error,
+						"LanguageModel",
+						(message, details) =>
+							new OperationFailedError(`Prompt failed: ${message}`, details),
+					),
+	};
+}
+
+/**
+ * Applies the shared init options to an init function. Pass `createOptions`
+ * to the download `create()` call, then route the init result through
+ * `succeeded` and `failed`:
+ * - the monitor reports download fractions to `onProgress` next to any
+ *   caller-provided `monitor`, and `succeeded` reports 1 if the download did
+ *   not, e.g. because the model was already on the device
+ * - the signal combines the caller's `signal` with `timeout`; `failed` turns
+ *   an init cut short by the timeout into a TimeoutError
+ */
+export function prepareInit(
+	apiName: string,
+	options:
+		| (InitOptions & { monitor?: CreateMonitorCallback | undefined })
+		| undefined,
+): {
+	createOptions: { monitor?: CreateMonitorCallback; signal?: AbortSignal };
+	succeeded: <T>(value: T) => T;
+	failed: (error: ChromiumAIError) => ChromiumAIError;
+} {
+	const onProgress = options?.onProgress;
+	let lastFraction: number | undefined;
+	const guard = withTimeout(options?.timeout, options?.signal);
+
+	return {
+		createOptions: {
+			monitor: onProgress
+				? (monitor) => {
+						options?.monitor?.(monitor);
+						monitor.addEventListener("downloadprogress", (event) => {
+							lastFraction = event.total
+								? event.loaded / event.total
+								: event.loaded;
+							onProgress(lastFraction, apiName);
+						});
+					}
+				: options?.monitor,
+			signal: guard.signal,
+		},
+		succeeded: (value) => {
+			guard.clear();
+			if (lastFraction !== 1) {
+				onProgress?.(1, apiName);
+			}
+			return value;
+		},
+		failed: (error) => {
+			guard.clear();
+			return guard.timedOut()
+				? new TimeoutError(
+						`${apiName} initialization timed out after ${options?.timeout}ms`,
+						{ api: apiName, cause: error },
+					)
+				: error;
+		},
+	};
+}
+
+/**
+ * Runs `task` for every item with at most `concurrency` calls in flight and
+ * returns the results in input order. Rejects with the first failure; items
+ * not yet started when it happens are skipped.
+ */
+export async function mapConcurrent<T, R>(
+	items: readonly T[],
+	concurrency: number,
+	task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+	const results = new Array<R>(items.length);
+	let nextIndex = 0;
+	let failed = false;
+
+	const worker = async () => {
+		while (!failed && nextIndex < items.length) {
+			const index = nextIndex++;
+			try {
+				results[index] = await task(items[index] as T, index);
+			} catch (error) {
+				failed = true;
+				throw error;
+			}
+		}
+	};
+
+	// NaN or a fraction below 1 would otherwise start no worker at all
+	const workerCount = Math.min(
+		Math.max(1, Math.floor(concurrency) || 1),
+		items.length,
+	);
+	await Promise.all(Array.from({ length: workerCount }, worker));
+	return results;
+}
+
+/**
+ * JSON.stringify with object keys sorted, so options objects that are equal
+ * by value produce the same string regardless of key order.
+ */
+export function stableStringify(value: unknown): string {
+	return JSON.stringify(value, (_key, nested: unknown) =>
+		nested && typeof nested === "object" && !Array.isArray(nested)
+			? Object.fromEntries(
+					Object.entries(nested).sort(([a], [b]) => a.localeCompare(b)),
+				)
+			: nested,
+	);
+}
@@ -0,0 +1,103 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import { errAsync, ResultAsync } from "neverthrow";
+import {
+	ApiNotPresentError,
+	type ChromiumAIError,
+	OperationFailedError,
+	SessionCreateFailedError,
+	toChromiumAIError,
+} from "./errors";
+import type { SafeWriterInstance } from "./types";
+import { checkAvailability, initFailure, iterateStream } from "./utils";
+
+/**
+ * Initializes the Writer API by checking availability and triggering model download.
+ * Returns a safe instance object with `.write()`, `.writeStreaming()` and `.createSession()` methods.
+ *
+ * @param createOptions Optional creation options (tone, format, length, sharedContext)
+ * @returns A Result containing a SafeWriterInstance or a ChromiumAIError
+ *
+ * @example
+ * const result = await initWriter({ tone: "formal" });
+ * result.match(
+ *   (writer) => writer.write("A thank-you note for the team"),
+ *   (error) => console.error(error.message)
+ * );
+ */
+export function initWriter(
+	createOptions?: WriterCreateOptions,
+): ResultAsync<SafeWriterInstance, ChromiumAIError> {
+	// Default outputLanguage to "en" if not specified
+	const mergedOptions: WriterCreateOptions = {
+		outputLanguage: "en",
+		...createOptions,
+	};
+
+	if (typeof Writer === "undefined") {
+		return errAsync(
+			new ApiNotPresentError(
+				"Writer API is not available in this browser. Ensure you are using Chrome 137+ or a supported Chromium-based browser.",
+				{ api: "Writer" },
+			),
+		);
+	}
+
+	return checkAvailability(
+		() => Writer.availability(mergedOptions),
+		"Writer",
+	).andThen((availability) =>
+		ResultAsync.fromPromise(
+			(async () => {
+				// Create and keep the session alive for reuse
+				const writer = await Writer.create(mergedOptions);
+
+				const instance: SafeWriterInstance = {
+					write: (text, writeOptions) =>
+						ResultAsync.fromPromise(writer.write(text, writeOptions), (error) =>
+							toChromiumAIError(
+								error,
+								"Writer",
+								(message, details) =>
+									new OperationFailedError(
+										`Writing failed: ${message}`,
+										details,
+									),
+							),
+						),
+					writeStreaming: (text, writeOptions) =>
+						iterateStream(
+							() => writer.writeStreaming(text, writeOptions),
+							(error) =>
+								toChromiumAIError(
+									error,
+									"Writer",
+									(message, details) =>
+										new OperationFailedError(
+											`Writing failed: ${message}`,
+											details,
+										),
+								),
+						),
+					createSession: () =>
+						ResultAsync.fromPromise(Writer.create(mergedOptions), (error) =>
+							toChromiumAIError(
+								error,
+								"Writer",
+								(message, details) =>
+									new SessionCreateFailedError(
+										`Failed to create Writer session: ${message}`,
+										details,
+									),
+							),
+						),
+					destroy: () => writer.destroy(),
+				};
+
+				return instance;
+			})(),
+			(error) =>
+				toChromiumAIError(error, "Writer", initFailure(availability, "Writer")),
+		),
+	);
+}
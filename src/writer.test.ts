@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { type ChromiumAIFakes, installChromiumAIFakes } from "./testing";
+import { initWriter } from "./writer";
+import { initWriter as safeInitWriter } from "./writer-safe";
+
+let fakes: ChromiumAIFakes;
+
+afterEach(() => {
+	fakes.uninstall();
+});
+
+describe("initWriter", () => {
+	it("fails with ApiNotPresent when the global is missing", async () => {
+		fakes = installChromiumAIFakes({ writer: false });
+
+		const result = await safeInitWriter();
+
+		expect(result._unsafeUnwrapErr().kind).toBe("ApiNotPresent");
+	});
+
+	it("writes with per-call context", async () => {
+		fakes = installChromiumAIFakes({
+			writer: {
+				respond: (input, _session, options) => `${input} (${options?.context})`,
+			},
+		});
+		const writer = await initWriter({ tone: "formal" });
+
+		await expect(writer.write("Thanks", { context: "Email" })).resolves.toBe(
+			"Thanks (Email)",
+		);
+		expect(fakes.writer.createCalls[0]).toMatchObject({ tone: "formal" });
+	});
+
+	it("streams the written text", async () => {
+		fakes = installChromiumAIFakes({ writer: { respond: "Dear team," } });
+		const writer = await initWriter();
+
+		const chunks: string[] = [];
+		for await (const chunk of writer.writeStreaming("Greeting")) {
+			chunks.push(chunk);
+		}
+
+		expect(chunks.join("")).toBe("Dear team,");
+	});
+});
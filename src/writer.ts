@@ -0,0 +1,38 @@
+/// <reference types="@types/dom-chromium-ai" />
+
+import type { WriterInstance } from "./types";
+import { okOrThrow, okOrThrowIterable } from "./utils";
+import * as Safe from "./writer-safe";
+
+/**
+ * Initializes the Writer API by checking availability and triggering model download.
+ * Returns an instance object with `.write()`, `.writeStreaming()` and `.createSession()` methods.
+ *
+ * @param createOptions Optional creation options (tone, format, length, sharedContext)
+ * @returns A WriterInstance
+ * @throws {Error} If initialization fails
+ *
+ * @example
+ * const writer = await initWriter({ tone: "formal" });
+ * const draft = await writer.write("A thank-you note for the team");
+ */
+export async function initWriter(
+	createOptions?: WriterCreateOptions,
+): Promise<WriterInstance> {
+	const safeInstance = await Safe.initWriter(createOptions);
+	const safe = okOrThrow(safeInstance);
+
+	return {
+		write: async (text, writeOptions) => {
+			const result = await safe.write(text, writeOptions);
+			return okOrThrow(result);
+		},
+		writeStreaming: (text, writeOptions) =>
+			okOrThrowIterable(safe.writeStreaming(text, writeOptions)),
+		createSession: async () => {
+			const result = await safe.createSession();
+			return okOrThrow(result);
+		},
+		destroy: () => safe.destroy(),
+	};
+}
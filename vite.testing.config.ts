@@ -0,0 +1,29 @@
+import { resolve } from "node:path";
+import { defineConfig } from "vite";
+import dts from "vite-plugin-dts";
+
+// Builds the `simple-chromium-ai/testing` entry point next to the main bundle.
+export default defineConfig({
+	plugins: [
+		// testing.ts has no local imports, so its declaration file is already
+		// self-contained and needs no rollup.
+		dts({
+			include: ["src/testing.ts"],
+			compilerOptions: { rootDir: resolve(__dirname, "src") },
+		}),
+	],
+	build: {
+		emptyOutDir: false,
+		lib: {
+			entry: resolve(__dirname, "src/testing.ts"),
+			name: "simpleChromiumAITesting",
+			fileName: "testing",
+		},
+		rollupOptions: {
+			output: {
+				globals: {},
+				exports: "named",
+			},
+		},
+	},
+});